@@ -13,9 +13,44 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as auth from "../auth.js";
+import type * as bodyMetrics from "../bodyMetrics.js";
+import type * as calendar from "../calendar.js";
+import type * as calendarFeeds from "../calendarFeeds.js";
+import type * as calorieTargets from "../calorieTargets.js";
+import type * as crons from "../crons.js";
+import type * as dietaryRules from "../dietaryRules.js";
+import type * as equipment from "../equipment.js";
+import type * as exerciseCatalog from "../exerciseCatalog.js";
+import type * as exerciseData from "../exerciseData.js";
+import type * as exercises from "../exercises.js";
+import type * as fitnessProfiles from "../fitnessProfiles.js";
+import type * as foodData from "../foodData.js";
+import type * as foodLogs from "../foodLogs.js";
+import type * as foodMatching from "../foodMatching.js";
+import type * as foods from "../foods.js";
 import type * as http from "../http.js";
+import type * as ical from "../ical.js";
+import type * as injuryRules from "../injuryRules.js";
+import type * as llm from "../llm.js";
+import type * as muscleGroups from "../muscleGroups.js";
+import type * as nutrition from "../nutrition.js";
+import type * as periodization from "../periodization.js";
+import type * as planJobs from "../planJobs.js";
+import type * as planRevisions from "../planRevisions.js";
+import type * as planValidation from "../planValidation.js";
 import type * as plans from "../plans.js";
+import type * as progress from "../progress.js";
+import type * as progression from "../progression.js";
+import type * as prompts from "../prompts.js";
+import type * as routineAdjustments from "../routineAdjustments.js";
+import type * as routineHistory from "../routineHistory.js";
+import type * as routines from "../routines.js";
+import type * as scheduledWorkouts from "../scheduledWorkouts.js";
+import type * as strength from "../strength.js";
+import type * as units from "../units.js";
 import type * as users from "../users.js";
+import type * as workoutSessions from "../workoutSessions.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -26,9 +61,44 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  auth: typeof auth;
+  bodyMetrics: typeof bodyMetrics;
+  calendar: typeof calendar;
+  calendarFeeds: typeof calendarFeeds;
+  calorieTargets: typeof calorieTargets;
+  crons: typeof crons;
+  dietaryRules: typeof dietaryRules;
+  equipment: typeof equipment;
+  exerciseCatalog: typeof exerciseCatalog;
+  exerciseData: typeof exerciseData;
+  exercises: typeof exercises;
+  fitnessProfiles: typeof fitnessProfiles;
+  foodData: typeof foodData;
+  foodLogs: typeof foodLogs;
+  foodMatching: typeof foodMatching;
+  foods: typeof foods;
   http: typeof http;
+  ical: typeof ical;
+  injuryRules: typeof injuryRules;
+  llm: typeof llm;
+  muscleGroups: typeof muscleGroups;
+  nutrition: typeof nutrition;
+  periodization: typeof periodization;
+  planJobs: typeof planJobs;
+  planRevisions: typeof planRevisions;
+  planValidation: typeof planValidation;
   plans: typeof plans;
+  progress: typeof progress;
+  progression: typeof progression;
+  prompts: typeof prompts;
+  routineAdjustments: typeof routineAdjustments;
+  routineHistory: typeof routineHistory;
+  routines: typeof routines;
+  scheduledWorkouts: typeof scheduledWorkouts;
+  strength: typeof strength;
+  units: typeof units;
   users: typeof users;
+  workoutSessions: typeof workoutSessions;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
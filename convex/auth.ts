@@ -0,0 +1,30 @@
+import { Auth } from "convex/server";
+import { ConvexError } from "convex/values";
+import { QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+
+// Clerk's JWT subject is the Clerk user id, which is what plans and jobs store
+// as userId.
+export async function getCurrentUserId(ctx: { auth: Auth }): Promise<string | null> {
+    const identity = await ctx.auth.getUserIdentity();
+    return identity?.subject ?? null;
+}
+
+export async function requireCurrentUserId(ctx: { auth: Auth }): Promise<string> {
+    const userId = await getCurrentUserId(ctx);
+    if (!userId) {
+        throw new Error("Not authenticated");
+    }
+    return userId;
+}
+
+// Loads a plan the signed-in user owns. Other users' plans are reported as
+// missing so their ids can't be probed.
+export async function getOwnedPlan(ctx: QueryCtx, planId: Id<"plans">) {
+    const userId = await requireCurrentUserId(ctx);
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== userId) {
+        throw new ConvexError("Plan not found.");
+    }
+    return plan;
+}
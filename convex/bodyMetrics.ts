@@ -0,0 +1,107 @@
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { getCurrentUserId, requireCurrentUserId } from "./auth";
+import { inToCm, lbToKg, parseHeight, parseIntakeWeight } from "./units";
+
+// Records the height and weight strings collected during onboarding. Values
+// that can't be parsed are skipped rather than failing plan generation, and
+// the units the user spoke in become their preference if they have none yet.
+export async function recordOnboardingMetrics(
+    ctx: MutationCtx,
+    userId: string,
+    height: string,
+    weight: string
+) {
+    const user = await ctx.db
+        .query("users")
+        .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+        .first();
+
+    const parsedHeight = parseHeight(height);
+    const parsedWeight = parseIntakeWeight(weight, height);
+    if (!parsedHeight && !parsedWeight) {
+        console.warn(`Could not parse onboarding height "${height}" or weight "${weight}".`);
+        return;
+    }
+
+    await ctx.db.insert("bodyMetrics", {
+        userId,
+        recordedAt: Date.now(),
+        source: "onboarding",
+        heightCm: parsedHeight?.cm,
+        weightKg: parsedWeight?.kg,
+    });
+
+    const spokenSystem = parsedWeight?.system ?? parsedHeight?.system;
+    if (user && !user.units && spokenSystem) {
+        await ctx.db.patch(user._id, { units: spokenSystem });
+    }
+}
+
+// Mutation to log a measurement in whichever units the user entered
+export const logBodyMetrics = mutation({
+    args: {
+        units: v.union(v.literal("metric"), v.literal("imperial")),
+        weight: v.optional(v.number()),
+        bodyFatPercent: v.optional(v.number()),
+        waist: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const userId = await requireCurrentUserId(ctx);
+
+        if (args.weight === undefined && args.bodyFatPercent === undefined && args.waist === undefined) {
+            throw new ConvexError("Enter at least one measurement.");
+        }
+
+        const weightKg =
+            args.weight === undefined ? undefined : args.units === "imperial" ? lbToKg(args.weight) : args.weight;
+        const waistCm =
+            args.waist === undefined ? undefined : args.units === "imperial" ? inToCm(args.waist) : args.waist;
+
+        if (weightKg !== undefined && !(weightKg >= 20 && weightKg <= 400)) {
+            throw new ConvexError("Weight is outside the supported range.");
+        }
+        if (args.bodyFatPercent !== undefined && !(args.bodyFatPercent >= 2 && args.bodyFatPercent <= 70)) {
+            throw new ConvexError("Body fat must be between 2% and 70%.");
+        }
+        if (waistCm !== undefined && !(waistCm >= 40 && waistCm <= 250)) {
+            throw new ConvexError("Waist is outside the supported range.");
+        }
+
+        return await ctx.db.insert("bodyMetrics", {
+            userId,
+            recordedAt: Date.now(),
+            source: "manual",
+            weightKg,
+            bodyFatPercent: args.bodyFatPercent,
+            waistCm,
+        });
+    },
+});
+
+export const removeBodyMetric = mutation({
+    args: { bodyMetricId: v.id("bodyMetrics") },
+    handler: async (ctx, args) => {
+        const userId = await requireCurrentUserId(ctx);
+        const metric = await ctx.db.get(args.bodyMetricId);
+        if (!metric || metric.userId !== userId) {
+            throw new ConvexError("Measurement not found.");
+        }
+        await ctx.db.delete(args.bodyMetricId);
+    },
+});
+
+// Query to get the signed-in user's measurements, oldest first
+export const getBodyMetrics = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return [];
+
+        return await ctx.db
+            .query("bodyMetrics")
+            .withIndex("by_user_recorded", (q) => q.eq("userId", userId))
+            .order("asc")
+            .collect();
+    },
+});
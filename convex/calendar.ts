@@ -0,0 +1,68 @@
+// Calendar dates for scheduled workouts. Dates are YYYY-MM-DD strings in the
+// user's own time zone, as sent by the client, and are only ever compared or
+// shifted by whole days here, so no time zone is needed. Pure functions,
+// shared by the schedule mutations and the calendar view.
+
+export const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// Weeks scheduled for plans without a multi-week program.
+export const DEFAULT_SCHEDULE_WEEKS = 4;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDate = (date: string) => DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date));
+
+// `time` as a date in the local time zone (en-CA formats as YYYY-MM-DD).
+export const localDate = (time = Date.now()) => new Date(time).toLocaleDateString("en-CA");
+
+const toUtc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export function addDays(date: string, days: number): string {
+    const shifted = toUtc(date);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+}
+
+export const weekdayOf = (date: string) => WEEKDAYS[(toUtc(date).getUTCDay() + 6) % 7];
+
+// The Monday on or before `date`.
+export const startOfWeek = (date: string) => addDays(date, -WEEKDAYS.indexOf(weekdayOf(date)));
+
+// Which weekday each plan day falls on. Day names normally are weekdays
+// ("Monday", "Monday - Upper Body"); days named otherwise ("Day 1") take the
+// weekday at the same position in the plan's schedule.
+export function assignWeekdays(workoutPlan: { schedule: string[]; exercises: { day: string }[] }) {
+    const assigned: { weekday: string; day: string }[] = [];
+    workoutPlan.exercises.forEach(({ day }, index) => {
+        const named = WEEKDAYS.find((weekday) => day.toLowerCase().startsWith(weekday.toLowerCase()));
+        const fallback = WEEKDAYS.find((weekday) => weekday.toLowerCase() === workoutPlan.schedule[index]?.trim().toLowerCase());
+        const weekday = named ?? fallback;
+        if (weekday) assigned.push({ weekday, day });
+    });
+    return assigned;
+}
+
+// Every plan day on its weekday for `weeks` weeks from `startDate`.
+export function buildSchedule(
+    workoutPlan: { schedule: string[]; exercises: { day: string }[] },
+    startDate: string,
+    weeks: number
+): { date: string; day: string }[] {
+    const assigned = assignWeekdays(workoutPlan);
+    const schedule: { date: string; day: string }[] = [];
+    for (let offset = 0; offset < weeks * 7; offset++) {
+        const date = addDays(startDate, offset);
+        const weekday = weekdayOf(date);
+        for (const { day } of assigned.filter((a) => a.weekday === weekday)) {
+            schedule.push({ date, day });
+        }
+    }
+    return schedule;
+}
+
+export type ScheduleStatus = "scheduled" | "completed" | "skipped" | "missed";
+
+// A workout still scheduled for a day that has passed was missed.
+export function scheduleStatus(entry: { status: "scheduled" | "completed" | "skipped"; date: string }, today: string): ScheduleStatus {
+    return entry.status === "scheduled" && entry.date < today ? "missed" : entry.status;
+}
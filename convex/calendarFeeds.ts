@@ -0,0 +1,105 @@
+import { internalQuery, mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getCurrentUserId, requireCurrentUserId } from "./auth";
+
+// 32 random bytes, hex encoded
+function newToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return Array.from(bytes)
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+async function getFeedForUser(ctx: QueryCtx, userId: string) {
+    return await ctx.db
+        .query("calendarFeeds")
+        .withIndex("by_user_id", (q) => q.eq("userId", userId))
+        .first();
+}
+
+// Query to get the signed-in user's calendar feed, or null before they
+// subscribe
+export const getMyFeed = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return null;
+
+        const feed = await getFeedForUser(ctx, userId);
+        return feed && { token: feed.token, includeMeals: feed.includeMeals };
+    },
+});
+
+// Mutation to turn the feed on, or change whether it carries meal reminders.
+// Keeps the existing token so subscribed calendars carry on working.
+export const enableFeed = mutation({
+    args: { includeMeals: v.boolean() },
+    handler: async (ctx, args) => {
+        const userId = await requireCurrentUserId(ctx);
+        const feed = await getFeedForUser(ctx, userId);
+        if (feed) {
+            await ctx.db.patch(feed._id, { includeMeals: args.includeMeals });
+            return feed.token;
+        }
+
+        const token = newToken();
+        await ctx.db.insert("calendarFeeds", {
+            userId,
+            token,
+            includeMeals: args.includeMeals,
+            createdAt: Date.now(),
+        });
+        return token;
+    },
+});
+
+// Mutation to replace a leaked feed URL; calendars subscribed to the old one
+// stop updating
+export const resetFeedToken = mutation({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await requireCurrentUserId(ctx);
+        const feed = await getFeedForUser(ctx, userId);
+        if (!feed) return null;
+
+        const token = newToken();
+        await ctx.db.patch(feed._id, { token });
+        return token;
+    },
+});
+
+export const disableFeed = mutation({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await requireCurrentUserId(ctx);
+        const feed = await getFeedForUser(ctx, userId);
+        if (feed) await ctx.db.delete(feed._id);
+    },
+});
+
+// Everything the feed route needs for a token: the owner's active plan and its
+// workouts from `from` on, skipped ones left out. Null for unknown tokens.
+export const getFeedContents = internalQuery({
+    args: { token: v.string(), from: v.string() },
+    handler: async (ctx, args) => {
+        const feed = await ctx.db
+            .query("calendarFeeds")
+            .withIndex("by_token", (q) => q.eq("token", args.token))
+            .first();
+        if (!feed) return null;
+
+        const plan = await ctx.db
+            .query("plans")
+            .withIndex("by_user_id", (q) => q.eq("userId", feed.userId))
+            .filter((q) => q.eq(q.field("isActive"), true))
+            .first();
+        if (!plan) return { plan: null, workouts: [], includeMeals: feed.includeMeals };
+
+        const workouts = await ctx.db
+            .query("scheduledWorkouts")
+            .withIndex("by_plan_date", (q) => q.eq("planId", plan._id).gte("date", args.from))
+            .filter((q) => q.neq(q.field("status"), "skipped"))
+            .collect();
+        return { plan, workouts, includeMeals: feed.includeMeals };
+    },
+});
@@ -0,0 +1,130 @@
+// Deterministic daily calorie and macro targets, computed from the intake so
+// the diet prompt starts from a defensible number instead of letting the model
+// pick one. BMR uses Mifflin-St Jeor; TDEE scales it by training frequency.
+
+import { calorieDrift, CALORIE_DRIFT_TOLERANCE, FoodItem, Macros } from "./nutrition";
+import { DietPlanShape, GenerateProgramPayload } from "./planValidation";
+import { parseHeight, parseIntakeWeight } from "./units";
+
+export type Sex = "male" | "female";
+export type GoalType = "lose" | "maintain" | "gain";
+
+export type CalorieTargets = {
+    bmr: number;
+    tdee: number;
+    goal: GoalType;
+    dailyCalories: number;
+    macros: Macros;
+};
+
+// The intake doesn't ask for sex, so the midpoint of the male (+5) and female
+// (-161) constants is used unless one is given.
+const SEX_CONSTANT: Record<Sex | "unknown", number> = { male: 5, female: -161, unknown: -78 };
+
+// Multiplier added per weekly training day on top of the sedentary 1.2, so
+// 0 days is sedentary and 7 days lands near the "very active" 1.725-1.9 band.
+const SEDENTARY_MULTIPLIER = 1.2;
+const PER_TRAINING_DAY: Record<string, number> = { beginner: 0.06, intermediate: 0.075, advanced: 0.09 };
+
+const GOAL_ADJUSTMENT: Record<GoalType, number> = { lose: -0.2, maintain: 0, gain: 0.1 };
+const PROTEIN_G_PER_KG: Record<GoalType, number> = { lose: 2.0, maintain: 1.6, gain: 1.8 };
+const FAT_CALORIE_SHARE = 0.25;
+const MIN_DAILY_CALORIES = 1200;
+
+// How far the meals may add up away from the target before the response is
+// rejected outright rather than having its portions scaled to fit. Kept small:
+// scaling a plan much further leaves odd portions, so it is asked for again.
+export const MAX_PORTION_SCALING = 0.2;
+
+const LOSE_PATTERN = /\b(lose|loss|losing|fat|cut|cutting|lean|slim|tone|toning|shred)\b/i;
+const GAIN_PATTERN = /\b(gain|gaining|bulk|bulking|muscle|mass|build|building|strength|stronger|hypertrophy)\b/i;
+
+// "Lose fat and build muscle" matches both and is treated as a recomposition
+// at maintenance calories.
+export function classifyGoal(fitnessGoal: string): GoalType {
+    const lose = LOSE_PATTERN.test(fitnessGoal);
+    const gain = GAIN_PATTERN.test(fitnessGoal);
+    if (lose && !gain) return "lose";
+    if (gain && !lose) return "gain";
+    return "maintain";
+}
+
+export function mifflinStJeorBmr(weightKg: number, heightCm: number, age: number, sex?: Sex): number {
+    return 10 * weightKg + 6.25 * heightCm - 5 * age + SEX_CONSTANT[sex ?? "unknown"];
+}
+
+export function activityMultiplier(fitnessLevel: string, workoutDays: number): number {
+    const perDay = PER_TRAINING_DAY[fitnessLevel.trim().toLowerCase()] ?? PER_TRAINING_DAY.intermediate;
+    return SEDENTARY_MULTIPLIER + perDay * Math.min(Math.max(workoutDays, 0), 7);
+}
+
+// Returns null when height or weight can't be read, in which case the diet
+// prompt falls back to letting the model estimate.
+export function calculateCalorieTargets(
+    payload: Omit<GenerateProgramPayload, "user_id">,
+    sex?: Sex
+): CalorieTargets | null {
+    const height = parseHeight(payload.height);
+    const weight = parseIntakeWeight(payload.weight, payload.height);
+    if (!height || !weight) return null;
+
+    const bmr = mifflinStJeorBmr(weight.kg, height.cm, payload.age, sex);
+    const tdee = bmr * activityMultiplier(payload.fitness_level, payload.workout_days.length);
+    const goal = classifyGoal(payload.fitness_goal);
+    const dailyCalories = Math.max(MIN_DAILY_CALORIES, Math.round((tdee * (1 + GOAL_ADJUSTMENT[goal])) / 10) * 10);
+
+    const protein = Math.round(weight.kg * PROTEIN_G_PER_KG[goal]);
+    const fat = Math.round((dailyCalories * FAT_CALORIE_SHARE) / 9);
+    const carbs = Math.max(0, Math.round((dailyCalories - protein * 4 - fat * 9) / 4));
+
+    return {
+        bmr: Math.round(bmr),
+        tdee: Math.round(tdee),
+        goal,
+        dailyCalories,
+        macros: { protein, carbs, fat },
+    };
+}
+
+function scaleFood(food: FoodItem, factor: number): FoodItem {
+    return {
+        ...food,
+        quantity: Math.round(food.quantity * factor * 10) / 10,
+        calories: Math.round(food.calories * factor),
+        protein: Math.round(food.protein * factor),
+        carbs: Math.round(food.carbs * factor),
+        fat: Math.round(food.fat * factor),
+    };
+}
+
+// Holds a generated diet plan to the calculated targets. The stated daily
+// calories and macros are replaced with the targets; meals that add up to
+// something slightly off have their portions scaled to fit, and meals that
+// are far off are rejected so the repair loop can ask again.
+export function groundDietPlan(
+    plan: DietPlanShape,
+    targets: CalorieTargets
+): { value?: DietPlanShape; error?: string } {
+    const grounded: DietPlanShape = { ...plan, dailyCalories: targets.dailyCalories, macros: targets.macros };
+
+    const drift = calorieDrift(grounded);
+    if (drift === null || Math.abs(drift) <= CALORIE_DRIFT_TOLERANCE) {
+        return { value: grounded };
+    }
+    if (Math.abs(drift) > MAX_PORTION_SCALING) {
+        return {
+            error: `Diet plan meals add up to ${Math.round(targets.dailyCalories * (1 + drift))} kcal but must total about ${targets.dailyCalories} kcal.`,
+        };
+    }
+
+    const factor = 1 / (1 + drift);
+    return {
+        value: {
+            ...grounded,
+            meals: grounded.meals.map((meal) => ({
+                ...meal,
+                foods: meal.foods.map((food) => (typeof food === "string" ? food : scaleFood(food, factor))),
+            })),
+        },
+    };
+}
@@ -0,0 +1,14 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Program weeks end on different days for different plans, so check daily.
+crons.daily(
+    "auto-regulate active plans",
+    { hourUTC: 4, minuteUTC: 0 },
+    internal.routineAdjustments.regulateActivePlans,
+    {}
+);
+
+export default crons;
@@ -0,0 +1,368 @@
+// Rules engine for dietary restrictions and allergens. The intake's free-form
+// restrictions ("lactose intolerant", "no nuts", "halal") are resolved to
+// rules, each forbidding groups of ingredients that are matched against food
+// names after generation. Pure functions, shared by plan generation and the UI.
+
+import { FoodRecord, nutritionForGrams } from "./foodMatching";
+import { FoodItem, PlanFood } from "./nutrition";
+
+type IngredientGroup = {
+    label: string;
+    forbid: RegExp;
+    // Terms also caught inside longer words ("cheeseburger", "buttermilk").
+    // Only terms that don't turn up inside unrelated words belong here.
+    compound?: RegExp;
+    // Phrases removed before matching, e.g. "almond milk" is not dairy.
+    allow?: RegExp[];
+    // Database foods to swap in, by which part of the name matched. The first
+    // candidate that exists and breaks no active rule wins.
+    substitutes?: { match: RegExp; with: string[] }[];
+};
+
+export type DietaryRule = {
+    id: string;
+    label: string;
+    forbid: IngredientGroup[];
+    // Extra phrases this rule accepts on top of each group's own.
+    allow?: RegExp[];
+    // Groups that may not share a meal (kosher meat and dairy).
+    separate?: [IngredientGroup[], IngredientGroup[]];
+};
+
+export type DietViolation = {
+    mealIndex: number;
+    foodIndex: number;
+    mealName: string;
+    food: string;
+    rule: DietaryRule;
+    reason: string;
+};
+
+const PLANT_BASED = String.raw`(?:vegan|vegetarian|plant[- ]based|meatless|meat[- ]free|veggie|soy|tofu|seitan|tempeh)`;
+
+const PROTEIN_SUBSTITUTES = [
+    "Chicken breast (cooked)",
+    "Turkey breast (roasted)",
+    "Cod (baked)",
+    "Tofu (firm)",
+    "Tempeh",
+    "Lentils (cooked)",
+];
+
+const MEAT: IngredientGroup = {
+    label: "meat",
+    forbid: /\b(beef|steak|pork|bacon|ham|lamb|mutton|veal|venison|sausages?|salami|pepperoni|prosciutto|pancetta|chorizo|jerky|meatballs?|burgers?|hot ?dogs?|lard|meat)\b/,
+    compound: /beef|pork|bacon|sausage|salami|pepperoni|burger|meatball|meatloaf/,
+    allow: [
+        new RegExp(String.raw`\b${PLANT_BASED}\s*(sausages?|burgers?|meatballs?|mince|meat|bacon|hot ?dogs?)\b`),
+        /\b(bean|black bean|lentil|mushroom|chickpea)\s*burgers?\b/,
+    ],
+    substitutes: [{ match: /./, with: PROTEIN_SUBSTITUTES }],
+};
+
+const POULTRY: IngredientGroup = {
+    label: "poultry",
+    forbid: /\b(chicken|turkey|duck|goose)\b/,
+    compound: /chicken|turkey/,
+    allow: [new RegExp(String.raw`\b${PLANT_BASED}\s+(chicken|turkey)\b`)],
+    substitutes: [{ match: /./, with: PROTEIN_SUBSTITUTES }],
+};
+
+const FISH: IngredientGroup = {
+    label: "fish",
+    forbid: /\b(fish|salmon|tuna|cod|tilapia|sardines?|anchov(y|ies)|mackerel|trout|halibut|haddock|herring|sea bass|catfish|eel)\b/,
+    compound: /fish|salmon|tuna|sardine|anchov/,
+    substitutes: [{ match: /./, with: PROTEIN_SUBSTITUTES }],
+};
+
+const SHELLFISH: IngredientGroup = {
+    label: "shellfish",
+    forbid: /\b(shellfish|shrimps?|prawns?|lobsters?|crabs?|clams?|mussels?|oysters?|scallops?|squid|octopus|calamari)\b/,
+    compound: /shellfish|shrimp|prawn|lobster|oyster|scallop/,
+    substitutes: [{ match: /./, with: PROTEIN_SUBSTITUTES }],
+};
+
+// Only fish with fins and scales are kosher.
+const NON_KOSHER_FISH: IngredientGroup = {
+    label: "non-kosher fish",
+    forbid: /\b(catfish|eel|shark|swordfish)\b/,
+    compound: /catfish|swordfish/,
+    substitutes: [{ match: /./, with: PROTEIN_SUBSTITUTES }],
+};
+
+const PORK: IngredientGroup = {
+    label: "pork",
+    forbid: /\b(pork|bacon|ham|prosciutto|salami|pepperoni|pancetta|chorizo|gammon|lard)\b/,
+    compound: /pork|bacon|salami|pepperoni|prosciutto|chorizo/,
+    allow: [
+        new RegExp(String.raw`\b${PLANT_BASED}\s+(bacon|ham)\b`),
+        /\b(turkey|beef|chicken)\s+(bacon|ham|salami|pepperoni)\b/,
+    ],
+    substitutes: [{ match: /./, with: PROTEIN_SUBSTITUTES }],
+};
+
+const DAIRY: IngredientGroup = {
+    label: "dairy",
+    forbid: /\b(milk|cheese|cheddar|mozzarella|feta|parmesan|ricotta|paneer|yogh?urt|butter|cream|whey|casein|kefir|ghee|custard)\b/,
+    compound: /cheese|milk|butter(?!nut|scotch|fly|cup)|yogh?urt|whey/,
+    allow: [
+        /\b(almond|soy|oat|coconut|rice|cashew|hemp|pea|plant[- ]based|vegan|dairy[- ]free|non[- ]dairy)\s+(milk|yogh?urt|cheese|cream|butter)\b/,
+        /\b(peanut|almond|cashew|nut|seed|sunflower|apple|cocoa|shea)\s+butter\b/,
+        /\bbutter\s+beans?\b/,
+        /\bcream\s+of\s+tartar\b/,
+    ],
+    substitutes: [
+        { match: /\bmilk\b/, with: ["Almond milk (unsweetened)"] },
+        { match: /\b(butter|ghee)\b/, with: ["Olive oil"] },
+    ],
+};
+
+const EGG: IngredientGroup = {
+    label: "eggs",
+    forbid: /\b(eggs?|omelett?es?|frittatas?|mayo|mayonnaise|meringue)\b/,
+    allow: [/\b(vegan|plant[- ]based|egg[- ]free|eggless)\s+(mayo|mayonnaise|eggs?)\b/],
+    substitutes: [{ match: /\b(eggs?|omelett?es?|frittatas?)\b/, with: ["Tofu (firm)"] }],
+};
+
+const HONEY: IngredientGroup = { label: "honey", forbid: /\bhoney\b/ };
+
+const GELATIN: IngredientGroup = { label: "gelatin", forbid: /\b(gelatin|gelatine)\b/ };
+
+const ALCOHOL: IngredientGroup = {
+    label: "alcohol",
+    forbid: /\b(wine|beer|rum|vodka|whiske?y|gin|liqueur|sake|brandy)\b/,
+    allow: [/\bwine\s+vinegar\b/],
+};
+
+const GLUTEN: IngredientGroup = {
+    label: "gluten",
+    forbid: /\b(wheat|bread|breadcrumbs?|pasta|spaghetti|macaroni|penne|noodles?|couscous|bagels?|tortillas?|wraps?|barley|rye|seitan|crackers?|bulgur|muffins?|pancakes?|waffles?|croissants?|pitas?|flour|cereal|granola|pretzels?|pizza|buns?|toast|biscuits?|semolina|farro|spelt|soy sauce|beer)\b/,
+    allow: [
+        /\bgluten[- ]free\s+[a-z]+\b/,
+        /\b(rice|corn|buckwheat|soba|glass|zucchini|konjac|shirataki|lentil|chickpea|almond|coconut|lettuce|rice paper)\s+(noodles?|pasta|tortillas?|flour|wraps?|bread|crackers?)\b/,
+    ],
+    substitutes: [
+        { match: /\b(pasta|spaghetti|macaroni|penne|noodles?|couscous|bulgur|barley|farro|spelt)\b/, with: ["Brown rice (cooked)", "Quinoa (cooked)"] },
+        { match: /\b(bread|bagels?|tortillas?|wraps?|toast|crackers?|pitas?|buns?)\b/, with: ["Rice cakes"] },
+    ],
+};
+
+const NUTS: IngredientGroup = {
+    label: "nuts",
+    forbid: /\b(nuts?|peanuts?|almonds?|walnuts?|cashews?|pecans?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?|praline|marzipan|nutella)\b/,
+    substitutes: [
+        { match: /\bmilk\b/, with: ["Skim milk"] },
+        { match: /\b(butter|spread)\b/, with: ["Avocado"] },
+        { match: /./, with: ["Edamame", "Chia seeds"] },
+    ],
+};
+
+// Order matters only for how violations are reported.
+const RULES: { pattern: RegExp; rule: DietaryRule }[] = [
+    {
+        pattern: /\bvegan\b|plant[- ]based/,
+        rule: { id: "vegan", label: "vegan", forbid: [MEAT, POULTRY, FISH, SHELLFISH, DAIRY, EGG, HONEY, GELATIN] },
+    },
+    {
+        pattern: /\bvegetarian\b|\bveggie\b|\bno meat\b|\bmeat[- ]free\b/,
+        rule: { id: "vegetarian", label: "vegetarian", forbid: [MEAT, POULTRY, FISH, SHELLFISH, GELATIN] },
+    },
+    {
+        pattern: /\bpescatarian\b|\bpescetarian\b/,
+        rule: { id: "pescatarian", label: "pescatarian", forbid: [MEAT, POULTRY] },
+    },
+    {
+        pattern: /gluten|c(o)?eliac|\bwheat\b/,
+        rule: { id: "gluten-free", label: "gluten-free", forbid: [GLUTEN] },
+    },
+    {
+        pattern: /lactose/,
+        rule: { id: "lactose-free", label: "lactose-free", forbid: [DAIRY], allow: [/\blactose[- ]free\s+[a-z]+\b/] },
+    },
+    {
+        pattern: /dairy|\bmilk allerg/,
+        rule: { id: "dairy-free", label: "dairy-free", forbid: [DAIRY] },
+    },
+    {
+        pattern: /\bnuts?\b|peanut|almond|cashew|walnut|hazelnut|pecan|pistachio/,
+        rule: { id: "nut-free", label: "nut-free", forbid: [NUTS] },
+    },
+    {
+        pattern: /\beggs?\b/,
+        rule: { id: "egg-free", label: "egg-free", forbid: [EGG] },
+    },
+    {
+        pattern: /shellfish|shrimp|prawn|crab|lobster/,
+        rule: { id: "shellfish-free", label: "shellfish-free", forbid: [SHELLFISH] },
+    },
+    {
+        pattern: /\bhalal\b|\bno pork\b/,
+        rule: { id: "halal", label: "halal", forbid: [PORK, ALCOHOL, GELATIN] },
+    },
+    {
+        pattern: /\bkosher\b/,
+        rule: {
+            id: "kosher",
+            label: "kosher",
+            forbid: [PORK, SHELLFISH, NON_KOSHER_FISH],
+            separate: [[MEAT, POULTRY], [DAIRY]],
+        },
+    },
+];
+
+// Restrictions that map to no rule are returned so callers can report them;
+// they still reach the prompt, they just aren't checked afterwards.
+export function resolveDietaryRules(restrictions: string[]): { rules: DietaryRule[]; unrecognized: string[] } {
+    const rules: DietaryRule[] = [];
+    const unrecognized: string[] = [];
+    for (const restriction of restrictions) {
+        const text = restriction.toLowerCase();
+        if (/^\s*(none|no|n\/a|nothing)?\s*$/.test(text)) continue;
+
+        const matched = RULES.filter(({ pattern }) => pattern.test(text));
+        if (matched.length === 0) unrecognized.push(restriction);
+        for (const { rule } of matched) {
+            if (!rules.includes(rule)) rules.push(rule);
+        }
+    }
+    return { rules, unrecognized };
+}
+
+// The part of a food name that matches the group, or null when the food is
+// fine once the group's and rule's allowed phrases are taken out.
+function matchGroup(name: string, group: IngredientGroup, rule: DietaryRule): string | null {
+    let text = name.toLowerCase();
+    for (const allowed of [...(group.allow ?? []), ...(rule.allow ?? [])]) {
+        text = text.replace(new RegExp(allowed.source, "g"), " ");
+    }
+    return text.match(group.forbid)?.[0] ?? (group.compound && text.match(group.compound)?.[0]) ?? null;
+}
+
+function firstForbidden(name: string, rule: DietaryRule): { group: IngredientGroup; ingredient: string } | null {
+    for (const group of rule.forbid) {
+        const ingredient = matchGroup(name, group, rule);
+        if (ingredient) return { group, ingredient };
+    }
+    return null;
+}
+
+function mealHasGroup(names: string[], groups: IngredientGroup[], rule: DietaryRule): boolean {
+    return names.some((name) => groups.some((group) => matchGroup(name, group, rule)));
+}
+
+export function findDietViolations(
+    meals: { name: string; foods: PlanFood[] }[],
+    rules: DietaryRule[]
+): DietViolation[] {
+    const violations: DietViolation[] = [];
+    meals.forEach((meal, mealIndex) => {
+        const names = meal.foods.map((food) => (typeof food === "string" ? food : food.name));
+        for (const rule of rules) {
+            names.forEach((name, foodIndex) => {
+                const forbidden = firstForbidden(name, rule);
+                if (forbidden) {
+                    violations.push({
+                        mealIndex,
+                        foodIndex,
+                        mealName: meal.name,
+                        food: name,
+                        rule,
+                        reason: `contains ${forbidden.ingredient} (${forbidden.group.label})`,
+                    });
+                }
+            });
+
+            if (rule.separate) {
+                const [first, second] = rule.separate;
+                if (mealHasGroup(names, first, rule) && mealHasGroup(names, second, rule)) {
+                    violations.push({
+                        mealIndex,
+                        foodIndex: -1,
+                        mealName: meal.name,
+                        food: meal.name,
+                        rule,
+                        reason: `mixes ${first.map((g) => g.label).join("/")} with ${second.map((g) => g.label).join("/")}`,
+                    });
+                }
+            }
+        }
+    });
+    return violations;
+}
+
+export function describeViolation(violation: DietViolation): string {
+    return violation.foodIndex < 0
+        ? `${violation.mealName} ${violation.reason}, which is not ${violation.rule.label}`
+        : `'${violation.food}' (${violation.mealName}) ${violation.reason}, which is not ${violation.rule.label}`;
+}
+
+// One line per rule for the diet prompt, e.g.
+// "- lactose-free: no dairy".
+export function describeDietaryRules(rules: DietaryRule[]): string {
+    return rules
+        .map((rule) => {
+            const groups = rule.forbid.map((group) => group.label).join(", ");
+            const separate = rule.separate
+                ? `; never serve ${rule.separate[0].map((g) => g.label).join(" or ")} and ${rule.separate[1].map((g) => g.label).join(" or ")} in the same meal`
+                : "";
+            return `- ${rule.label}: no ${groups}${separate}`;
+        })
+        .join("\n    ");
+}
+
+// A database food standing in for a forbidden one, sized to the same calories
+// so the plan still meets its targets.
+function substituteFood(original: FoodItem, replacement: FoodRecord): FoodItem | null {
+    if (replacement.per100g.calories <= 0 || original.calories <= 0) return null;
+    const grams = Math.round((original.calories / replacement.per100g.calories) * 100);
+    return { name: replacement.name, quantity: grams, unit: "g", ...nutritionForGrams(replacement, grams) };
+}
+
+function findSubstitute(food: FoodItem, rules: DietaryRule[], foods: FoodRecord[]): FoodItem | null {
+    for (const rule of rules) {
+        const forbidden = firstForbidden(food.name, rule);
+        if (!forbidden) continue;
+
+        const lower = food.name.toLowerCase();
+        const candidates = forbidden.group.substitutes?.find(({ match }) => match.test(lower))?.with ?? [];
+        for (const candidate of candidates) {
+            const record = foods.find((f) => f.name === candidate);
+            if (!record || rules.some((r) => firstForbidden(record.name, r))) continue;
+            return substituteFood(food, record);
+        }
+        return null;
+    }
+    return null;
+}
+
+// Swaps forbidden structured foods for allowed database foods where a
+// sensible substitute exists. Anything left over - plain-text foods, foods
+// with no substitute, meat and dairy sharing a kosher meal - is returned as
+// an error so the model regenerates the plan.
+export function enforceDietaryRules<P extends { meals: { name: string; foods: PlanFood[] }[] }>(
+    plan: P,
+    rules: DietaryRule[],
+    foods: FoodRecord[]
+): { value?: P; error?: string; substitutions?: { from: string; to: string }[] } {
+    if (rules.length === 0) return { value: plan };
+
+    const substitutions: { from: string; to: string }[] = [];
+    const meals = plan.meals.map((meal) => ({
+        ...meal,
+        foods: meal.foods.map((food) => {
+            if (typeof food === "string" || !rules.some((rule) => firstForbidden(food.name, rule))) return food;
+            const substitute = findSubstitute(food, rules, foods);
+            if (!substitute) return food;
+            substitutions.push({ from: food.name, to: substitute.name });
+            return substitute;
+        }),
+    }));
+
+    const remaining = findDietViolations(meals, rules);
+    if (remaining.length > 0) {
+        return {
+            error: `Diet plan breaks the user's dietary restrictions: ${remaining.map(describeViolation).join("; ")}. Replace these foods with ones that fit.`,
+        };
+    }
+    return { value: { ...plan, meals }, substitutions };
+}
@@ -0,0 +1,96 @@
+// Training equipment a user has access to, in the same vocabulary the
+// exercise library uses for what each movement needs. Pure functions, shared
+// by intake validation, plan generation and the onboarding UI.
+
+export type Equipment =
+    | "dumbbell"
+    | "barbell"
+    | "kettlebell"
+    | "cable"
+    | "machine"
+    | "bench"
+    | "pull-up bar"
+    | "dip station"
+    | "box"
+    | "cardio machine"
+    | "jump rope";
+
+export const EQUIPMENT: Equipment[] = [
+    "dumbbell",
+    "barbell",
+    "kettlebell",
+    "cable",
+    "machine",
+    "bench",
+    "pull-up bar",
+    "dip station",
+    "box",
+    "cardio machine",
+    "jump rope",
+];
+
+// Used when a user's equipment is unknown: a plan that assumes gear they lack
+// can't be followed, so nothing is assumed.
+export const DEFAULT_EQUIPMENT: Equipment[] = [];
+
+export const EQUIPMENT_PRESETS: { label: string; equipment: Equipment[] }[] = [
+    { label: "No equipment", equipment: [] },
+    { label: "Home gym", equipment: ["dumbbell", "bench", "pull-up bar", "jump rope"] },
+    { label: "Full gym", equipment: EQUIPMENT },
+];
+
+// Spoken and written names for each item; the first match wins per phrase.
+const KEYWORDS: [Equipment, RegExp][] = [
+    ["dumbbell", /\b(dumb ?bells?|db)\b/],
+    ["barbell", /\b(barbells?|squat rack|power rack|olympic bar|plates)\b/],
+    ["kettlebell", /\bkettle ?bells?\b|\bkb\b/],
+    ["cable", /\bcables?\b|\bfunctional trainer\b|\bpulley\b/],
+    ["machine", /\bmachines?\b|\bleg press\b|\bsmith\b/],
+    ["bench", /\bbench(es)?\b/],
+    ["pull-up bar", /\b(pull|chin)[- ]?up bar\b/],
+    ["dip station", /\bdip (station|bars)\b|\bparallel bars\b/],
+    ["box", /\b(plyo )?box\b|\bstep\b/],
+    ["cardio machine", /\b(treadmill|bike|rower|rowing machine|elliptical|cardio machines?|spin bike)\b/],
+    ["jump rope", /\b(jump|skipping) rope\b/],
+];
+
+// A clause with any of these names equipment the user doesn't have ("I don't
+// have a gym", "no access to a gym", "not a gym member").
+const NEGATION = /\b(no|not|none|neither|nor|never|without|lack(ing)?|don'?t|doesn'?t|haven'?t|hasn'?t|can'?t|cannot)\b/;
+
+// Turns intake answers ("Home gym", "dumbbells and a bench", "none") into
+// equipment items. Answers are read clause by clause ("dumbbells, but no
+// bench"); negated clauses and unrecognised phrases add nothing, so an unclear
+// answer falls back to bodyweight only.
+export function parseEquipment(answers: string[]): Equipment[] {
+    const found = new Set<Equipment>();
+    for (const answer of answers) {
+        const text = answer.toLowerCase().trim();
+        if (EQUIPMENT.includes(text as Equipment)) {
+            found.add(text as Equipment);
+            continue;
+        }
+        for (const clause of text.split(/[,;.]|\b(?:and|but|plus|though|although)\b/)) {
+            if (NEGATION.test(clause)) continue;
+            if (/\bhome gym\b/.test(clause)) {
+                EQUIPMENT_PRESETS[1].equipment.forEach((item) => found.add(item));
+            } else if (/\bgym\b/.test(clause)) {
+                EQUIPMENT.forEach((item) => found.add(item));
+            }
+            for (const [item, pattern] of KEYWORDS) {
+                if (pattern.test(clause)) found.add(item);
+            }
+        }
+    }
+    return EQUIPMENT.filter((item) => found.has(item));
+}
+
+export function describeEquipment(equipment: string[]): string {
+    if (equipment.length === 0) return "None (bodyweight only)";
+    if (EQUIPMENT.every((item) => equipment.includes(item))) return "Full gym";
+    return equipment.join(", ");
+}
+
+export function missingEquipment(required: string[], available: string[]): string[] {
+    return required.filter((item) => !available.includes(item));
+}
@@ -0,0 +1,123 @@
+// Canonical exercise library: types, and resolution of free-form routine
+// names ("Barbell Squats", "DB bench") to catalog entries. Pure functions,
+// shared by plan generation, the progress queries and the UI.
+
+import { Equipment, missingEquipment } from "./equipment";
+import { scoreNameMatch } from "./foodMatching";
+import { muscleGroupFor, MuscleGroup } from "./muscleGroups";
+import { renameRoutineExercises, routineExerciseNames, StoredRoutine } from "./routines";
+
+export type MovementPattern =
+    | "squat"
+    | "hinge"
+    | "lunge"
+    | "push"
+    | "pull"
+    | "core"
+    | "carry"
+    | "isolation"
+    | "cardio"
+    | "plyometric";
+
+export type Difficulty = "beginner" | "intermediate" | "advanced";
+
+export type ExerciseRecord = {
+    name: string;
+    aliases: string[];
+    primaryMuscles: MuscleGroup[];
+    secondaryMuscles: MuscleGroup[];
+    // Everything needed; empty for bodyweight movements.
+    equipment: Equipment[];
+    difficulty: Difficulty;
+    movementPattern: MovementPattern;
+    cues: string[];
+};
+
+// Two-word names sharing one word score 0.5 ("Chin-Up" / "Pull-Up"), so the
+// bar sits above that.
+export const MIN_EXERCISE_SCORE = 0.6;
+
+// Unlike foods, "side" and "plain" carry meaning here ("Side Plank").
+const EXERCISE_STOPWORDS = new Set(["a", "an", "and", "of", "with", "the", "on", "in"]);
+
+export function resolveExercise<T extends Pick<ExerciseRecord, "name" | "aliases">>(
+    name: string,
+    catalog: T[]
+): { exercise: T; score: number } | null {
+    let best: { exercise: T; score: number } | null = null;
+    for (const exercise of catalog) {
+        const score = scoreNameMatch(name, [exercise.name, ...exercise.aliases], EXERCISE_STOPWORDS);
+        if (score >= MIN_EXERCISE_SCORE && (!best || score > best.score)) {
+            best = { exercise, score };
+        }
+    }
+    return best;
+}
+
+// Catalog muscles first, falling back to the keyword heuristic for names the
+// catalog doesn't know.
+export function muscleGroupForExercise(
+    name: string,
+    catalog: (Pick<ExerciseRecord, "name" | "aliases"> & { primaryMuscles: string[] })[]
+): MuscleGroup {
+    const primary = resolveExercise(name, catalog)?.exercise.primaryMuscles[0];
+    return primary ? (primary as MuscleGroup) : muscleGroupFor(name);
+}
+
+// Renames every exercise (including those inside circuits) to its catalog
+// entry, or reports the names that don't resolve so the model can be asked to
+// pick known movements instead.
+export function canonicalizeWorkoutPlan<P extends { exercises: { routines: R[] }[] }, R extends StoredRoutine>(
+    plan: P,
+    catalog: Pick<ExerciseRecord, "name" | "aliases">[]
+): { value?: P; error?: string } {
+    if (catalog.length === 0) return { value: plan };
+
+    const unknown = new Set<string>();
+    const exercises = plan.exercises.map((day) => ({
+        ...day,
+        routines: day.routines.map((routine) =>
+            renameRoutineExercises(routine, (name) => {
+                const match = resolveExercise(name, catalog);
+                if (!match) {
+                    unknown.add(name);
+                    return name;
+                }
+                return match.exercise.name;
+            })
+        ),
+    }));
+
+    if (unknown.size > 0) {
+        return {
+            error: `Unknown exercises: ${[...unknown].map((name) => `'${name}'`).join(", ")}. Use only exercise names from the provided list.`,
+        };
+    }
+    return { value: { ...plan, exercises } };
+}
+
+// Checks each routine the library knows against the user's equipment, so the
+// model can be asked to swap anything they couldn't actually do.
+export function checkWorkoutEquipment<P extends { exercises: { routines: StoredRoutine[] }[] }>(
+    plan: P,
+    catalog: (Pick<ExerciseRecord, "name" | "aliases"> & { equipment: string[] })[],
+    available: string[]
+): { value?: P; error?: string } {
+    const problems = new Set<string>();
+    for (const day of plan.exercises) {
+        for (const name of day.routines.flatMap(routineExerciseNames)) {
+            const exercise = resolveExercise(name, catalog)?.exercise;
+            const missing = exercise ? missingEquipment(exercise.equipment, available) : [];
+            if (missing.length > 0) {
+                problems.add(`'${name}' needs ${missing.join(" and ")}`);
+            }
+        }
+    }
+
+    if (problems.size > 0) {
+        return {
+            error: `The user doesn't have the equipment for: ${[...problems].join("; ")}. Replace these with exercises that use only the available equipment.`,
+        };
+    }
+    return { value: plan };
+}
@@ -0,0 +1,936 @@
+// Bundled exercise library, loaded with `npx convex run exercises:seedExercises`.
+// Names are what plans store once a generated routine is resolved, so
+// renaming an entry here leaves existing plans pointing at the old name (it
+// stays resolvable if it's kept as an alias).
+
+import { ExerciseRecord } from "./exerciseCatalog";
+
+export const EXERCISES: ExerciseRecord[] = [
+    // Squat and lunge patterns
+    {
+        name: "Barbell Back Squat",
+        aliases: ["back squat", "barbell squat", "squat"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes", "core"],
+        equipment: ["barbell"],
+        difficulty: "intermediate",
+        movementPattern: "squat",
+        cues: [
+            "Set the bar on your upper back, hands just outside shoulder width.",
+            "Brace your core and sit down between your hips, knees tracking over your toes.",
+            "Descend until your thighs are at least parallel, keeping your chest up.",
+            "Drive through your whole foot to stand, exhaling at the top.",
+        ],
+    },
+    {
+        name: "Front Squat",
+        aliases: ["barbell front squat"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["core", "glutes"],
+        equipment: ["barbell"],
+        difficulty: "advanced",
+        movementPattern: "squat",
+        cues: [
+            "Rest the bar on the front of your shoulders with elbows high.",
+            "Keep your torso upright as you squat straight down.",
+            "Push your knees out and keep your elbows up out of the bottom.",
+        ],
+    },
+    {
+        name: "Goblet Squat",
+        aliases: ["dumbbell goblet squat", "kettlebell goblet squat", "dumbbell squat"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes", "core"],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "squat",
+        cues: [
+            "Hold a dumbbell vertically against your chest.",
+            "Squat down between your knees, elbows brushing the inside of your thighs.",
+            "Keep your chest tall and stand up through your heels.",
+        ],
+    },
+    {
+        name: "Box Squat",
+        aliases: ["bench squat", "squat to box"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: ["box"],
+        difficulty: "beginner",
+        movementPattern: "squat",
+        cues: [
+            "Stand in front of a box or bench set to about knee height.",
+            "Sit back until you lightly touch the box without relaxing.",
+            "Stand back up by driving through your heels.",
+        ],
+    },
+    {
+        name: "Bodyweight Squat",
+        aliases: ["air squat"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "squat",
+        cues: [
+            "Stand with feet shoulder-width apart, arms out in front for balance.",
+            "Sit your hips down and back while keeping your heels down.",
+            "Stand tall and squeeze your glutes at the top.",
+        ],
+    },
+    {
+        name: "Leg Press",
+        aliases: ["machine leg press", "45 degree leg press"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: ["machine"],
+        difficulty: "beginner",
+        movementPattern: "squat",
+        cues: [
+            "Sit with your back flat against the pad and feet shoulder-width on the platform.",
+            "Lower the platform until your knees reach about 90 degrees.",
+            "Press back up without locking your knees.",
+        ],
+    },
+    {
+        name: "Walking Lunge",
+        aliases: ["walking lunges", "lunges", "lunge", "dumbbell lunge"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "lunge",
+        cues: [
+            "Step forward and lower until both knees are bent about 90 degrees.",
+            "Keep your front knee over your ankle and torso upright.",
+            "Push through the front heel and step straight into the next lunge.",
+        ],
+    },
+    {
+        name: "Bulgarian Split Squat",
+        aliases: ["split squat", "rear foot elevated split squat"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "intermediate",
+        movementPattern: "lunge",
+        cues: [
+            "Rest your back foot on a bench, front foot a stride ahead.",
+            "Lower straight down until your back knee nearly touches the floor.",
+            "Drive up through the front heel; finish all reps before switching legs.",
+        ],
+    },
+    {
+        name: "Step-Up",
+        aliases: ["box step-up", "dumbbell step-up"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: ["box"],
+        difficulty: "beginner",
+        movementPattern: "lunge",
+        cues: [
+            "Place one whole foot on a box or step.",
+            "Push through that foot to stand on the box without pushing off the back leg.",
+            "Lower under control and repeat.",
+        ],
+    },
+    {
+        name: "Leg Extension",
+        aliases: ["machine leg extension", "quad extension"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: [],
+        equipment: ["machine"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Sit with the pad just above your ankles and knees lined up with the pivot.",
+            "Straighten your legs and squeeze your quads briefly at the top.",
+            "Lower slowly.",
+        ],
+    },
+    {
+        name: "Lying Leg Curl",
+        aliases: ["leg curl", "hamstring curl", "seated leg curl"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: [],
+        equipment: ["machine"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Lie face down with the pad just above your heels.",
+            "Curl your heels towards your glutes, keeping your hips down.",
+            "Lower slowly to full extension.",
+        ],
+    },
+    {
+        name: "Standing Calf Raise",
+        aliases: ["calf raise", "calf raises"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: [],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Stand with the balls of your feet on a step, heels hanging off.",
+            "Rise as high as you can onto your toes.",
+            "Lower until you feel a stretch in your calves.",
+        ],
+    },
+    {
+        name: "Seated Calf Raise",
+        aliases: ["machine calf raise"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: [],
+        equipment: ["machine"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Sit with the pad resting on your lower thighs and the balls of your feet on the platform.",
+            "Raise your heels as high as possible.",
+            "Lower slowly into a stretch.",
+        ],
+    },
+
+    // Hinge patterns
+    {
+        name: "Conventional Deadlift",
+        aliases: ["deadlift", "barbell deadlift"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["legs", "back", "core"],
+        equipment: ["barbell"],
+        difficulty: "intermediate",
+        movementPattern: "hinge",
+        cues: [
+            "Stand with the bar over your mid-foot and grip it just outside your knees.",
+            "Flatten your back, brace, and pull the slack out of the bar.",
+            "Push the floor away, keeping the bar against your legs.",
+            "Lock out with your glutes, then hinge back down under control.",
+        ],
+    },
+    {
+        name: "Romanian Deadlift",
+        aliases: ["rdl", "stiff-leg deadlift", "dumbbell romanian deadlift"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["legs", "back"],
+        equipment: ["barbell"],
+        difficulty: "intermediate",
+        movementPattern: "hinge",
+        cues: [
+            "Stand tall holding the bar, knees softly bent.",
+            "Push your hips back and slide the bar down your thighs with a flat back.",
+            "Stop when you feel a strong hamstring stretch, then drive your hips forward to stand.",
+        ],
+    },
+    {
+        name: "Kettlebell Deadlift",
+        aliases: ["kb deadlift"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["legs", "back"],
+        equipment: ["kettlebell"],
+        difficulty: "beginner",
+        movementPattern: "hinge",
+        cues: [
+            "Stand with the kettlebell between your feet.",
+            "Hinge at the hips to grip the handle with a flat back.",
+            "Stand up by driving your hips forward, then lower it the same way.",
+        ],
+    },
+    {
+        name: "Kettlebell Swing",
+        aliases: ["kettlebell swings", "russian kettlebell swing"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["legs", "core", "back"],
+        equipment: ["kettlebell"],
+        difficulty: "intermediate",
+        movementPattern: "hinge",
+        cues: [
+            "Hike the kettlebell back between your legs like a football snap.",
+            "Snap your hips forward to float the bell to chest height.",
+            "Let it fall back into the hinge and repeat; your arms just guide it.",
+        ],
+    },
+    {
+        name: "Hip Thrust",
+        aliases: ["barbell hip thrust"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["legs"],
+        equipment: ["barbell", "bench"],
+        difficulty: "intermediate",
+        movementPattern: "hinge",
+        cues: [
+            "Sit with your upper back against a bench and the bar over your hips.",
+            "Drive through your heels to lift your hips until your body is level.",
+            "Squeeze your glutes at the top, chin tucked, then lower.",
+        ],
+    },
+    {
+        name: "Glute Bridge",
+        aliases: ["bridge", "hip bridge"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["legs", "core"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "hinge",
+        cues: [
+            "Lie on your back with knees bent and feet flat.",
+            "Press through your heels to lift your hips in line with your knees and shoulders.",
+            "Hold briefly, then lower without arching your lower back.",
+        ],
+    },
+    {
+        name: "Good Morning",
+        aliases: ["barbell good morning"],
+        primaryMuscles: ["glutes"],
+        secondaryMuscles: ["back", "legs"],
+        equipment: ["barbell"],
+        difficulty: "advanced",
+        movementPattern: "hinge",
+        cues: [
+            "Set a light bar on your upper back.",
+            "Hinge forward with a flat back and soft knees until your torso is near parallel.",
+            "Drive your hips forward to return upright.",
+        ],
+    },
+
+    // Chest
+    {
+        name: "Barbell Bench Press",
+        aliases: ["bench press", "flat bench press"],
+        primaryMuscles: ["chest"],
+        secondaryMuscles: ["shoulders", "arms"],
+        equipment: ["barbell", "bench"],
+        difficulty: "intermediate",
+        movementPattern: "push",
+        cues: [
+            "Lie with eyes under the bar, feet planted and shoulder blades pinched.",
+            "Lower the bar to your mid-chest with elbows about 45 degrees from your body.",
+            "Press back up over your shoulders.",
+        ],
+    },
+    {
+        name: "Dumbbell Bench Press",
+        aliases: ["dumbbell press", "db bench press", "dumbbell chest press"],
+        primaryMuscles: ["chest"],
+        secondaryMuscles: ["shoulders", "arms"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "beginner",
+        movementPattern: "push",
+        cues: [
+            "Lie on a bench with a dumbbell in each hand above your chest.",
+            "Lower them to the sides of your chest, elbows slightly tucked.",
+            "Press up until your arms are straight.",
+        ],
+    },
+    {
+        name: "Incline Dumbbell Press",
+        aliases: ["incline press", "incline bench press"],
+        primaryMuscles: ["chest"],
+        secondaryMuscles: ["shoulders", "arms"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "intermediate",
+        movementPattern: "push",
+        cues: [
+            "Set the bench to 30-45 degrees.",
+            "Lower the dumbbells to your upper chest.",
+            "Press up and slightly together.",
+        ],
+    },
+    {
+        name: "Push-Up",
+        aliases: ["push-ups", "pushups", "press-up"],
+        primaryMuscles: ["chest"],
+        secondaryMuscles: ["shoulders", "arms", "core"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "push",
+        cues: [
+            "Start in a high plank with hands slightly wider than your shoulders.",
+            "Lower your chest to just above the floor, body in one straight line.",
+            "Push back up; drop to your knees if you can't keep the line.",
+        ],
+    },
+    {
+        name: "Dumbbell Fly",
+        aliases: ["chest fly", "dumbbell flyes"],
+        primaryMuscles: ["chest"],
+        secondaryMuscles: ["shoulders"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Lie on a bench with dumbbells above your chest, elbows slightly bent.",
+            "Open your arms in a wide arc until you feel a chest stretch.",
+            "Bring them back together as if hugging a tree.",
+        ],
+    },
+    {
+        name: "Parallel Bar Dip",
+        aliases: ["dips", "chest dips", "tricep dips"],
+        primaryMuscles: ["chest"],
+        secondaryMuscles: ["arms", "shoulders"],
+        equipment: ["dip station"],
+        difficulty: "intermediate",
+        movementPattern: "push",
+        cues: [
+            "Support yourself on straight arms between the bars.",
+            "Lower until your upper arms are about parallel to the floor.",
+            "Press back up to straight arms.",
+        ],
+    },
+
+    // Back
+    {
+        name: "Pull-Up",
+        aliases: ["pull-ups", "pullups"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms"],
+        equipment: ["pull-up bar"],
+        difficulty: "intermediate",
+        movementPattern: "pull",
+        cues: [
+            "Hang from the bar with an overhand grip slightly wider than your shoulders.",
+            "Pull your elbows down to your sides until your chin clears the bar.",
+            "Lower to a full hang under control.",
+        ],
+    },
+    {
+        name: "Chin-Up",
+        aliases: ["chin-ups", "chinups"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms"],
+        equipment: ["pull-up bar"],
+        difficulty: "intermediate",
+        movementPattern: "pull",
+        cues: [
+            "Hang with an underhand, shoulder-width grip.",
+            "Pull until your chin clears the bar.",
+            "Lower all the way down.",
+        ],
+    },
+    {
+        name: "Lat Pulldown",
+        aliases: ["pulldown", "cable pulldown", "wide grip pulldown"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms"],
+        equipment: ["cable"],
+        difficulty: "beginner",
+        movementPattern: "pull",
+        cues: [
+            "Sit with thighs under the pads and grip the bar wider than your shoulders.",
+            "Pull the bar to your upper chest, leading with your elbows.",
+            "Let it rise slowly until your arms are straight.",
+        ],
+    },
+    {
+        name: "Dumbbell Row",
+        aliases: ["one-arm dumbbell row", "single-arm dumbbell row"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "beginner",
+        movementPattern: "pull",
+        cues: [
+            "Support one hand and knee on a bench, back flat.",
+            "Row the dumbbell to your hip, keeping your elbow close.",
+            "Lower until your arm is straight.",
+        ],
+    },
+    {
+        name: "Barbell Bent-Over Row",
+        aliases: ["bent-over row", "barbell row"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms", "glutes"],
+        equipment: ["barbell"],
+        difficulty: "intermediate",
+        movementPattern: "pull",
+        cues: [
+            "Hinge forward to about 45 degrees with a flat back.",
+            "Row the bar to your lower ribs.",
+            "Lower under control without standing up.",
+        ],
+    },
+    {
+        name: "Chest-Supported Dumbbell Row",
+        aliases: ["incline dumbbell row", "chest supported row"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "beginner",
+        movementPattern: "pull",
+        cues: [
+            "Lie face down on an incline bench holding dumbbells.",
+            "Row both dumbbells up, squeezing your shoulder blades together.",
+            "Lower until your arms are straight.",
+        ],
+    },
+    {
+        name: "Seated Cable Row",
+        aliases: ["cable row", "seated row"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: ["arms"],
+        equipment: ["cable"],
+        difficulty: "beginner",
+        movementPattern: "pull",
+        cues: [
+            "Sit tall with feet on the platform and a slight bend in your knees.",
+            "Pull the handle to your stomach, shoulders down and back.",
+            "Reach forward slowly without rounding your lower back.",
+        ],
+    },
+    {
+        name: "Face Pull",
+        aliases: ["cable face pull", "rope face pull"],
+        primaryMuscles: ["shoulders"],
+        secondaryMuscles: ["back"],
+        equipment: ["cable"],
+        difficulty: "beginner",
+        movementPattern: "pull",
+        cues: [
+            "Set a rope at upper-chest height.",
+            "Pull the rope towards your face, splitting the ends beside your ears.",
+            "Pause with elbows high, then return slowly.",
+        ],
+    },
+    {
+        name: "Dumbbell Shrug",
+        aliases: ["shrugs", "shrug"],
+        primaryMuscles: ["back"],
+        secondaryMuscles: [],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Stand holding dumbbells at your sides.",
+            "Lift your shoulders straight up towards your ears.",
+            "Hold briefly and lower.",
+        ],
+    },
+
+    // Shoulders
+    {
+        name: "Standing Overhead Press",
+        aliases: ["overhead press", "military press", "ohp", "barbell shoulder press"],
+        primaryMuscles: ["shoulders"],
+        secondaryMuscles: ["arms", "core"],
+        equipment: ["barbell"],
+        difficulty: "intermediate",
+        movementPattern: "push",
+        cues: [
+            "Hold the bar at your collarbones, grip just outside your shoulders.",
+            "Squeeze your glutes and press the bar straight overhead, moving your head out of the way.",
+            "Lower back to your collarbones.",
+        ],
+    },
+    {
+        name: "Seated Dumbbell Shoulder Press",
+        aliases: ["dumbbell shoulder press", "shoulder press"],
+        primaryMuscles: ["shoulders"],
+        secondaryMuscles: ["arms"],
+        equipment: ["dumbbell", "bench"],
+        difficulty: "beginner",
+        movementPattern: "push",
+        cues: [
+            "Sit on an upright bench with dumbbells at shoulder height.",
+            "Press them overhead until your arms are straight.",
+            "Lower back to shoulder height.",
+        ],
+    },
+    {
+        name: "Landmine Press",
+        aliases: ["half-kneeling landmine press", "single-arm landmine press"],
+        primaryMuscles: ["shoulders"],
+        secondaryMuscles: ["chest", "core"],
+        equipment: ["barbell"],
+        difficulty: "intermediate",
+        movementPattern: "push",
+        cues: [
+            "Wedge one end of a barbell in a corner and hold the other end at your shoulder.",
+            "Press up and forward along the bar's arc.",
+            "Lower back to your shoulder.",
+        ],
+    },
+    {
+        name: "Lateral Raise",
+        aliases: ["dumbbell lateral raise", "side raise"],
+        primaryMuscles: ["shoulders"],
+        secondaryMuscles: [],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Stand holding light dumbbells at your sides.",
+            "Raise them out to shoulder height with a slight elbow bend.",
+            "Lower slowly.",
+        ],
+    },
+    {
+        name: "Arnold Press",
+        aliases: ["dumbbell arnold press"],
+        primaryMuscles: ["shoulders"],
+        secondaryMuscles: ["arms"],
+        equipment: ["dumbbell"],
+        difficulty: "intermediate",
+        movementPattern: "push",
+        cues: [
+            "Start with dumbbells in front of your shoulders, palms facing you.",
+            "Rotate your palms forward as you press overhead.",
+            "Reverse the rotation on the way down.",
+        ],
+    },
+
+    // Arms
+    {
+        name: "Dumbbell Biceps Curl",
+        aliases: ["bicep curl", "biceps curl", "dumbbell curl", "curls"],
+        primaryMuscles: ["arms"],
+        secondaryMuscles: [],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Stand with dumbbells at your sides, palms forward.",
+            "Curl them up without swinging your elbows forward.",
+            "Lower slowly to straight arms.",
+        ],
+    },
+    {
+        name: "Barbell Curl",
+        aliases: ["ez-bar curl", "ez bar curl"],
+        primaryMuscles: ["arms"],
+        secondaryMuscles: [],
+        equipment: ["barbell"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Hold the bar with an underhand grip at shoulder width.",
+            "Curl it to your chest with elbows pinned to your sides.",
+            "Lower under control.",
+        ],
+    },
+    {
+        name: "Hammer Curl",
+        aliases: ["dumbbell hammer curl"],
+        primaryMuscles: ["arms"],
+        secondaryMuscles: [],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Hold dumbbells with palms facing each other.",
+            "Curl them up, keeping the neutral grip.",
+            "Lower slowly.",
+        ],
+    },
+    {
+        name: "Cable Triceps Pushdown",
+        aliases: ["tricep pushdown", "triceps pushdown", "rope pushdown"],
+        primaryMuscles: ["arms"],
+        secondaryMuscles: [],
+        equipment: ["cable"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Hold a bar or rope at a high cable with elbows at your sides.",
+            "Push down until your arms are straight.",
+            "Let it rise to about 90 degrees without moving your elbows.",
+        ],
+    },
+    {
+        name: "Skull Crusher",
+        aliases: ["skull crushers", "lying triceps extension"],
+        primaryMuscles: ["arms"],
+        secondaryMuscles: [],
+        equipment: ["barbell", "bench"],
+        difficulty: "intermediate",
+        movementPattern: "isolation",
+        cues: [
+            "Lie on a bench holding the bar above your chest.",
+            "Bend only at the elbows to lower it towards your forehead.",
+            "Extend back to straight arms.",
+        ],
+    },
+    {
+        name: "Overhead Triceps Extension",
+        aliases: ["dumbbell triceps extension", "overhead tricep extension"],
+        primaryMuscles: ["arms"],
+        secondaryMuscles: ["shoulders"],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "isolation",
+        cues: [
+            "Hold one dumbbell overhead with both hands.",
+            "Lower it behind your head, elbows pointing up.",
+            "Extend back overhead.",
+        ],
+    },
+
+    // Core and carries
+    {
+        name: "Plank",
+        aliases: ["forearm plank", "front plank"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: ["shoulders"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Rest on your forearms and toes, elbows under your shoulders.",
+            "Keep a straight line from head to heels; squeeze your glutes.",
+            "Breathe steadily and hold for the prescribed time.",
+        ],
+    },
+    {
+        name: "Side Plank",
+        aliases: ["side planks"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: ["shoulders"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Lie on your side propped on one forearm, feet stacked.",
+            "Lift your hips until your body is straight.",
+            "Hold, then switch sides.",
+        ],
+    },
+    {
+        name: "Dead Bug",
+        aliases: ["dead bugs"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: [],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Lie on your back, arms up and knees bent at 90 degrees.",
+            "Press your lower back into the floor.",
+            "Extend the opposite arm and leg, return, and alternate.",
+        ],
+    },
+    {
+        name: "Pallof Press",
+        aliases: ["anti-rotation press", "cable pallof press"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: ["shoulders"],
+        equipment: ["cable"],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Stand side-on to a cable at chest height, handle at your chest.",
+            "Press the handle straight out without letting your torso rotate.",
+            "Bring it back to your chest; do both sides.",
+        ],
+    },
+    {
+        name: "Crunch",
+        aliases: ["crunches", "sit-up", "sit-ups"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: [],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Lie on your back with knees bent, hands across your chest.",
+            "Curl your shoulders off the floor by contracting your abs.",
+            "Lower slowly without pulling on your neck.",
+        ],
+    },
+    {
+        name: "Hanging Leg Raise",
+        aliases: ["leg raises", "hanging knee raise"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: [],
+        equipment: ["pull-up bar"],
+        difficulty: "intermediate",
+        movementPattern: "core",
+        cues: [
+            "Hang from a bar with straight arms.",
+            "Raise your legs (or knees) to hip height without swinging.",
+            "Lower slowly.",
+        ],
+    },
+    {
+        name: "Russian Twist",
+        aliases: ["russian twists"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: [],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Sit leaning back slightly with knees bent.",
+            "Rotate your torso to tap the floor beside each hip.",
+            "Keep your chest up and move slowly.",
+        ],
+    },
+    {
+        name: "Mountain Climber",
+        aliases: ["mountain climbers"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: ["shoulders", "legs"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Start in a high plank.",
+            "Drive one knee towards your chest, then switch legs quickly.",
+            "Keep your hips level throughout.",
+        ],
+    },
+    {
+        name: "Bird Dog",
+        aliases: ["bird dogs"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: ["glutes", "back"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "core",
+        cues: [
+            "Kneel on all fours, hands under shoulders.",
+            "Reach one arm forward and the opposite leg back until level.",
+            "Return without rotating your hips and alternate sides.",
+        ],
+    },
+    {
+        name: "Farmer's Carry",
+        aliases: ["farmers walk", "farmer's walk", "farmers carry"],
+        primaryMuscles: ["core"],
+        secondaryMuscles: ["arms", "back"],
+        equipment: ["dumbbell"],
+        difficulty: "beginner",
+        movementPattern: "carry",
+        cues: [
+            "Pick up heavy dumbbells and stand tall.",
+            "Walk with short, steady steps, shoulders down and back.",
+            "Set them down with a flat back.",
+        ],
+    },
+
+    // Cardio and plyometrics
+    {
+        name: "Stationary Bike",
+        aliases: ["cycling", "exercise bike", "spin bike", "bike"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["legs"],
+        equipment: ["cardio machine"],
+        difficulty: "beginner",
+        movementPattern: "cardio",
+        cues: [
+            "Set the seat so your knee is slightly bent at the bottom of the pedal stroke.",
+            "Pedal at a pace where you can still speak in short sentences.",
+            "Cool down for the last few minutes.",
+        ],
+    },
+    {
+        name: "Running",
+        aliases: ["run", "jog", "jogging", "treadmill run", "treadmill"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["legs"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "cardio",
+        cues: [
+            "Start with a few minutes of brisk walking to warm up.",
+            "Run tall with short, quick strides landing under your hips.",
+            "Keep an easy conversational pace unless intervals are prescribed.",
+        ],
+    },
+    {
+        name: "Rowing Machine",
+        aliases: ["rower", "indoor rowing", "erg"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["back", "legs"],
+        equipment: ["cardio machine"],
+        difficulty: "beginner",
+        movementPattern: "cardio",
+        cues: [
+            "Drive with your legs first, then lean back slightly and pull the handle to your ribs.",
+            "Return in reverse order: arms, body, then legs.",
+            "Keep a steady rhythm.",
+        ],
+    },
+    {
+        name: "Elliptical Trainer",
+        aliases: ["elliptical", "cross trainer"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["legs"],
+        equipment: ["cardio machine"],
+        difficulty: "beginner",
+        movementPattern: "cardio",
+        cues: [
+            "Stand tall and hold the handles lightly.",
+            "Move in smooth strides, pushing and pulling with your arms.",
+            "Adjust resistance to keep a steady, moderate effort.",
+        ],
+    },
+    {
+        name: "Brisk Walk",
+        aliases: ["walking", "walk", "incline walk"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["legs"],
+        equipment: [],
+        difficulty: "beginner",
+        movementPattern: "cardio",
+        cues: [
+            "Walk at a pace that raises your breathing but still lets you talk.",
+            "Swing your arms and keep your head up.",
+            "Add an incline or hills to make it harder.",
+        ],
+    },
+    {
+        name: "Jump Rope",
+        aliases: ["skipping rope", "skipping"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["legs"],
+        equipment: ["jump rope"],
+        difficulty: "beginner",
+        movementPattern: "cardio",
+        cues: [
+            "Hold the handles at hip height and turn the rope with your wrists.",
+            "Jump just high enough to clear the rope, landing softly on the balls of your feet.",
+            "Keep a steady rhythm.",
+        ],
+    },
+    {
+        name: "Burpee",
+        aliases: ["burpees"],
+        primaryMuscles: ["cardio"],
+        secondaryMuscles: ["chest", "legs", "core"],
+        equipment: [],
+        difficulty: "intermediate",
+        movementPattern: "plyometric",
+        cues: [
+            "Squat down and place your hands on the floor.",
+            "Jump your feet back into a plank and lower your chest.",
+            "Jump your feet forward and leap up with arms overhead.",
+        ],
+    },
+    {
+        name: "Box Jump",
+        aliases: ["box jumps"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: ["box"],
+        difficulty: "intermediate",
+        movementPattern: "plyometric",
+        cues: [
+            "Stand a short step from a sturdy box.",
+            "Swing your arms and jump, landing softly with both feet on the box.",
+            "Stand up fully, then step down.",
+        ],
+    },
+    {
+        name: "Jump Squat",
+        aliases: ["squat jump", "squat jumps"],
+        primaryMuscles: ["legs"],
+        secondaryMuscles: ["glutes"],
+        equipment: [],
+        difficulty: "intermediate",
+        movementPattern: "plyometric",
+        cues: [
+            "Squat to about parallel.",
+            "Explode upwards into a jump.",
+            "Land softly and go straight into the next rep.",
+        ],
+    },
+];
@@ -0,0 +1,56 @@
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getOwnedPlan } from "./auth";
+import { resolveExercise } from "./exerciseCatalog";
+import { EXERCISES } from "./exerciseData";
+
+// Loads the bundled library: `npx convex run exercises:seedExercises`.
+// Existing entries are overwritten by name, so re-running picks up edits.
+export const seedExercises = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        let inserted = 0;
+        let updated = 0;
+        for (const exercise of EXERCISES) {
+            const existing = await ctx.db
+                .query("exercises")
+                .withIndex("by_name", (q) => q.eq("name", exercise.name))
+                .first();
+            if (existing) {
+                await ctx.db.replace(existing._id, exercise);
+                updated++;
+            } else {
+                await ctx.db.insert("exercises", exercise);
+                inserted++;
+            }
+        }
+        return { inserted, updated };
+    },
+});
+
+// The whole library, for resolving names during plan generation
+export const listExercises = internalQuery({
+    args: {},
+    handler: async (ctx) => {
+        return await ctx.db.query("exercises").collect();
+    },
+});
+
+// Query to get the library entry behind each routine in a plan, for showing
+// instructions. Entries line up with workoutPlan.exercises[i].routines[j];
+// circuits and names the library doesn't know are null.
+export const resolvePlanExercises = query({
+    args: { planId: v.id("plans") },
+    handler: async (ctx, args) => {
+        const plan = await getOwnedPlan(ctx, args.planId);
+        const catalog = await ctx.db.query("exercises").collect();
+
+        return plan.workoutPlan.exercises.map((day) =>
+            day.routines.map((routine) =>
+                "type" in routine && routine.type === "circuit"
+                    ? null
+                    : resolveExercise(routine.name, catalog)?.exercise ?? null
+            )
+        );
+    },
+});
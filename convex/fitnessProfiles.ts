@@ -0,0 +1,102 @@
+import { internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { ConvexError, Infer, v } from "convex/values";
+import { getCurrentUserId, requireCurrentUserId } from "./auth";
+import { DEFAULT_EQUIPMENT } from "./equipment";
+import { assertPayloadShape, GenerateProgramPayload } from "./planValidation";
+
+const profileFields = v.object({
+    age: v.number(),
+    height: v.string(),
+    weight: v.string(),
+    injuries: v.string(),
+    workoutDays: v.array(v.string()),
+    fitnessGoal: v.string(),
+    fitnessLevel: v.string(),
+    dietaryRestrictions: v.array(v.string()),
+    equipment: v.optional(v.array(v.string())),
+});
+
+type ProfileFields = Infer<typeof profileFields>;
+
+export function profileFromPayload(payload: Omit<GenerateProgramPayload, "user_id">): ProfileFields {
+    return {
+        age: payload.age,
+        height: payload.height,
+        weight: payload.weight,
+        injuries: payload.injuries,
+        workoutDays: payload.workout_days,
+        fitnessGoal: payload.fitness_goal,
+        fitnessLevel: payload.fitness_level,
+        dietaryRestrictions: payload.dietary_restrictions,
+        equipment: payload.equipment,
+    };
+}
+
+export function payloadFromProfile(profile: ProfileFields): Omit<GenerateProgramPayload, "user_id"> {
+    return {
+        age: profile.age,
+        height: profile.height,
+        weight: profile.weight,
+        injuries: profile.injuries,
+        workout_days: profile.workoutDays,
+        fitness_goal: profile.fitnessGoal,
+        fitness_level: profile.fitnessLevel,
+        dietary_restrictions: profile.dietaryRestrictions,
+        equipment: profile.equipment ?? DEFAULT_EQUIPMENT,
+    };
+}
+
+export async function upsertProfile(ctx: MutationCtx, userId: string, fields: ProfileFields) {
+    const existing = await ctx.db
+        .query("fitnessProfiles")
+        .withIndex("by_user_id", (q) => q.eq("userId", userId))
+        .first();
+
+    if (existing) {
+        await ctx.db.patch(existing._id, { ...fields, updatedAt: Date.now() });
+        return existing._id;
+    }
+    return await ctx.db.insert("fitnessProfiles", { userId, ...fields, updatedAt: Date.now() });
+}
+
+export const getForUser = internalQuery({
+    args: { userId: v.string() },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("fitnessProfiles")
+            .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+            .first();
+    },
+});
+
+// Query to get the signed-in user's fitness profile, or null before their
+// first onboarding
+export const getMyProfile = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return null;
+
+        return await ctx.db
+            .query("fitnessProfiles")
+            .withIndex("by_user_id", (q) => q.eq("userId", userId))
+            .first();
+    },
+});
+
+export const updateMyProfile = mutation({
+    args: profileFields.fields,
+    handler: async (ctx, args) => {
+        const userId = await requireCurrentUserId(ctx);
+
+        // Same rules as a plan request, so a saved profile is always usable
+        // as defaults for the next one
+        const { payload, error } = assertPayloadShape({ user_id: userId, ...payloadFromProfile(args) });
+        if (error) {
+            throw new ConvexError(error);
+        }
+        const { user_id, ...fields } = payload!;
+
+        return await upsertProfile(ctx, user_id, profileFromPayload(fields));
+    },
+});
@@ -0,0 +1,107 @@
+// Bundled food composition data, per 100 g edible portion, rounded from USDA
+// FoodData Central (SR Legacy) entries. Same column layout `importFoodsCsv`
+// accepts, so a larger export can be loaded the same way.
+//
+// portions: "unit:grams" pairs separated by "|"; the first is the default
+// serving used when a food is mentioned without an amount.
+// aliases: alternative names separated by "|".
+
+export const FOOD_CSV = `name,category,calories,protein,carbs,fat,fiber,portions,aliases
+Chicken breast (cooked),protein,165,31,0,3.6,0,piece:120|cup:140,grilled chicken|chicken breast|chicken|roast chicken|baked chicken
+Chicken thigh (cooked),protein,209,26,0,10.9,0,piece:70,chicken thighs
+Turkey breast (roasted),protein,135,30,0,1,0,slice:28|serving:85,turkey|sliced turkey
+Ground turkey (cooked),protein,203,27.4,0,10.4,0,serving:85|cup:130,turkey mince|minced turkey
+Lean ground beef (cooked),protein,217,26.1,0,11.8,0,serving:85|cup:130,ground beef|minced beef|beef mince|lean beef
+Sirloin steak (grilled),protein,206,29,0,9,0,piece:170|serving:85,steak|beef steak|sirloin|lean steak
+Pork tenderloin (roasted),protein,143,26,0,3.5,0,serving:85,pork|pork loin
+Bacon (cooked),protein,541,37,1.4,42,0,slice:8,bacon strips
+Salmon (baked),protein,206,22.1,0,12.4,0,fillet:150|serving:85,salmon|salmon fillet|grilled salmon
+Tuna (canned in water),protein,116,25.5,0,0.8,0,can:142|serving:85,tuna|canned tuna|tuna salad
+Cod (baked),protein,105,22.8,0,0.9,0,fillet:150|serving:85,cod|white fish|baked fish
+Tilapia (baked),protein,128,26.2,0,2.7,0,fillet:87,tilapia
+Shrimp (cooked),protein,99,24,0.2,0.3,0,serving:85|cup:145,shrimp|prawns
+Sardines (canned in oil),protein,208,24.6,0,11.5,0,can:92,sardines
+Egg (boiled),protein,155,12.6,1.1,10.6,0,piece:50,egg|eggs|boiled eggs|hard boiled eggs|poached eggs
+Scrambled eggs,protein,149,10,1.6,11,0,piece:61|cup:220,scrambled egg|omelette|omelet
+Egg whites,protein,52,10.9,0.7,0.2,0,cup:243|piece:33,egg white|liquid egg whites
+Tofu (firm),protein,144,17.3,2.8,8.7,2.3,serving:85|cup:252,tofu|firm tofu
+Tempeh,protein,192,20.3,7.6,10.8,0,serving:85,tempeh
+Whey protein powder,protein,400,80,8,6.7,0,scoop:30,protein shake|whey protein|protein powder|whey shake
+Protein bar,protein,333,33,37,12,5,piece:60,protein bars
+Greek yogurt (nonfat),dairy,59,10.2,3.6,0.4,0,cup:245|serving:170,greek yogurt|plain greek yogurt|low fat greek yogurt
+Greek yogurt (whole milk),dairy,97,9,4,5,0,cup:245|serving:170,full fat greek yogurt
+Cottage cheese (low fat),dairy,81,10.5,4.8,2.3,0,cup:226|serving:113,cottage cheese
+Skim milk,dairy,34,3.4,5,0.1,0,cup:245|ml:1,skimmed milk|nonfat milk|milk
+Whole milk,dairy,61,3.2,4.8,3.3,0,cup:244|ml:1,full fat milk
+Almond milk (unsweetened),dairy,15,0.6,0.6,1.1,0.2,cup:240|ml:1,almond milk
+Cheddar cheese,dairy,403,24.9,1.3,33.1,0,slice:28|oz:28,cheddar|cheese
+Mozzarella (part skim),dairy,254,24.3,2.8,15.9,0,slice:28|oz:28,mozzarella
+Feta cheese,dairy,264,14.2,4.1,21.3,0,oz:28|cup:150,feta
+Lentils (cooked),legume,116,9,20.1,0.4,7.9,cup:198,lentils|lentil soup|dal
+Chickpeas (cooked),legume,164,8.9,27.4,2.6,7.6,cup:164,chickpeas|garbanzo beans
+Black beans (cooked),legume,132,8.9,23.7,0.5,8.7,cup:172,black beans|beans
+Kidney beans (cooked),legume,127,8.7,22.8,0.5,6.4,cup:177,kidney beans|red beans
+Edamame,legume,121,11.9,8.9,5.2,5.2,cup:155,edamame|soybeans
+Hummus,legume,166,7.9,14.3,9.6,6,tbsp:15|cup:246,hummus|houmous
+Oatmeal (cooked),grain,71,2.5,12,1.5,1.7,cup:234,oatmeal|porridge|overnight oats
+Rolled oats (dry),grain,379,13.2,67.7,6.5,10.1,cup:81|tbsp:5,oats|rolled oats|oat flakes
+Brown rice (cooked),grain,123,2.7,25.6,1,1.6,cup:195,brown rice|rice
+White rice (cooked),grain,130,2.7,28.2,0.3,0.4,cup:158,white rice|jasmine rice|basmati rice
+Quinoa (cooked),grain,120,4.4,21.3,1.9,2.8,cup:185,quinoa
+Pasta (cooked),grain,158,5.8,30.9,0.9,1.8,cup:140,pasta|spaghetti|penne|noodles
+Whole wheat pasta (cooked),grain,149,6,30,1.7,3.9,cup:140,whole wheat pasta|whole grain pasta|wholemeal pasta
+Couscous (cooked),grain,112,3.8,23.2,0.2,1.4,cup:157,couscous
+Whole wheat bread,grain,252,12.4,42.7,3.5,6,slice:32,whole grain bread|wholemeal bread|brown bread|whole wheat toast|toast
+White bread,grain,266,8.9,49.4,3.3,2.7,slice:25,bread|white toast
+Bagel,grain,257,10,50.5,1.6,2.2,piece:98,bagel|plain bagel
+Flour tortilla,grain,306,8.2,50,7.9,3.5,piece:45,tortilla|wrap|whole wheat wrap
+Rice cakes,grain,387,8.2,81.5,2.8,4.2,piece:9,rice cake
+Granola,grain,471,10,64,20,7,cup:122|serving:50,granola|muesli
+Sweet potato (baked),vegetable,90,2,20.7,0.2,3.3,piece:150|cup:200,sweet potato|sweet potatoes|yam
+Potato (baked),vegetable,93,2.5,21.2,0.1,2.2,piece:173|cup:122,potato|potatoes|baked potato|boiled potatoes
+Broccoli (steamed),vegetable,35,2.4,7.2,0.4,3.3,cup:156,broccoli|steamed broccoli
+Spinach (raw),vegetable,23,2.9,3.6,0.4,2.2,cup:30,spinach|baby spinach
+Kale (raw),vegetable,35,2.9,4.4,1.5,4.1,cup:21,kale
+Mixed salad greens,vegetable,17,1.3,3.3,0.2,2,cup:47,salad|green salad|side salad|mixed greens|mixed green salad|lettuce
+Carrots (raw),vegetable,41,0.9,9.6,0.2,2.8,piece:61|cup:128,carrot|carrots|carrot sticks
+Bell pepper,vegetable,31,1,6,0.3,2.1,piece:119|cup:149,peppers|bell peppers|red pepper
+Tomato,vegetable,18,0.9,3.9,0.2,1.2,piece:123|cup:180,tomatoes|cherry tomatoes
+Cucumber,vegetable,15,0.7,3.6,0.1,0.5,piece:301|cup:104,cucumbers
+Zucchini,vegetable,17,1.2,3.1,0.3,1,piece:196|cup:124,zucchini|courgette
+Asparagus (cooked),vegetable,22,2.4,4.1,0.2,2,cup:180,asparagus
+Green beans (cooked),vegetable,35,1.9,7.9,0.3,3.2,cup:125,green beans|string beans
+Cauliflower,vegetable,25,1.9,5,0.3,2,cup:107,cauliflower|cauliflower rice
+Mushrooms,vegetable,22,3.1,3.3,0.3,1,cup:70,mushroom|mushrooms
+Brussels sprouts (cooked),vegetable,36,2.6,7.1,0.5,2.6,cup:156,brussels sprouts
+Mixed vegetables (steamed),vegetable,60,2.9,12,0.2,4,cup:182,vegetables|veggies|mixed vegetables|stir fry vegetables|roasted vegetables
+Avocado,fat,160,2,8.5,14.7,6.7,piece:150|cup:150,avocado|guacamole
+Banana,fruit,89,1.1,22.8,0.3,2.6,piece:118,banana|bananas
+Apple,fruit,52,0.3,13.8,0.2,2.4,piece:182,apple|apples
+Orange,fruit,47,0.9,11.8,0.1,2.4,piece:131,orange|oranges
+Blueberries,fruit,57,0.7,14.5,0.3,2.4,cup:148,blueberries|blueberry
+Strawberries,fruit,32,0.7,7.7,0.3,2,cup:152,strawberries|strawberry
+Mixed berries,fruit,48,0.8,11.5,0.3,3,cup:150,berries|mixed berries
+Grapes,fruit,69,0.7,18.1,0.2,0.9,cup:151,grapes
+Pineapple,fruit,50,0.5,13.1,0.1,1.4,cup:165,pineapple
+Mango,fruit,60,0.8,15,0.4,1.6,cup:165|piece:336,mango
+Raisins,fruit,299,3.1,79.2,0.5,3.7,tbsp:9|cup:145,raisins
+Dates,fruit,277,1.8,75,0.2,6.7,piece:24,medjool dates|date
+Almonds,fat,579,21.2,21.6,49.9,12.5,oz:28|piece:1.2|cup:143,almond|handful of almonds
+Walnuts,fat,654,15.2,13.7,65.2,6.7,oz:28|cup:117,walnut
+Cashews,fat,553,18.2,30.2,43.9,3.3,oz:28,cashew
+Peanuts,fat,567,25.8,16.1,49.2,8.5,oz:28,peanut
+Mixed nuts,fat,607,20,21,54,7,oz:28,nuts|trail mix
+Peanut butter,fat,588,25,20,50,6,tbsp:16,peanut butter
+Almond butter,fat,614,21,18.8,55.5,10.3,tbsp:16,almond butter|nut butter
+Chia seeds,fat,486,16.5,42.1,30.7,34.4,tbsp:12,chia|chia pudding
+Ground flaxseed,fat,534,18.3,28.9,42.2,27.3,tbsp:7,flaxseed|flax seeds|linseed
+Olive oil,fat,884,0,0,100,0,tbsp:13.5|tsp:4.5,olive oil|oil|extra virgin olive oil
+Butter,fat,717,0.9,0.1,81.1,0,tbsp:14|tsp:5,butter
+Dark chocolate (70-85%),snack,598,7.8,45.9,42.6,10.9,square:10|oz:28,dark chocolate|chocolate
+Honey,snack,304,0.3,82.4,0,0.2,tbsp:21|tsp:7,honey
+Marinara sauce,snack,50,1.4,8,1.5,1.9,cup:250|tbsp:16,tomato sauce|pasta sauce
+Black coffee,drink,2,0.3,0,0,0,cup:240,coffee|americano|espresso
+Green tea,drink,1,0.2,0,0,0,cup:245,tea|herbal tea
+Water,drink,0,0,0,0,0,cup:240|ml:1,water|sparkling water
+Orange juice,drink,45,0.7,10.4,0.2,0.2,cup:248|ml:1,juice|oj
+`;
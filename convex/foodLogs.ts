@@ -0,0 +1,148 @@
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { getCurrentUserId, getOwnedPlan, requireCurrentUserId } from "./auth";
+import { isDate } from "./calendar";
+import { matchFood, nutritionForGrams, portionGrams } from "./foodMatching";
+import { FoodItem } from "./nutrition";
+
+function assertDate(date: string) {
+    if (!isDate(date)) {
+        throw new ConvexError("Date must be formatted as YYYY-MM-DD.");
+    }
+}
+
+function assertMealSlot(plan: Doc<"plans">, mealName: string) {
+    if (!plan.dietPlan.meals.some((meal) => meal.name === mealName)) {
+        throw new ConvexError(`'${mealName}' is not a meal in this plan.`);
+    }
+}
+
+async function insertFoodLog(
+    ctx: MutationCtx,
+    plan: Doc<"plans">,
+    entry: {
+        date: string;
+        mealName: string;
+        source: "plan" | "database";
+        foodId?: Id<"foods">;
+        food: FoodItem;
+    }
+) {
+    return await ctx.db.insert("foodLogs", {
+        userId: plan.userId,
+        planId: plan._id,
+        date: entry.date,
+        mealName: entry.mealName,
+        source: entry.source,
+        foodId: entry.foodId,
+        ...entry.food,
+        loggedAt: Date.now(),
+    });
+}
+
+// Mutation to log one of the foods the plan suggests for a meal, as planned.
+// Plain-text foods from older plans are estimated from the food database.
+export const quickAddPlanFood = mutation({
+    args: {
+        planId: v.id("plans"),
+        date: v.string(),
+        mealIndex: v.number(),
+        foodIndex: v.number(),
+    },
+    handler: async (ctx, args) => {
+        assertDate(args.date);
+        const plan = await getOwnedPlan(ctx, args.planId);
+        const meal = plan.dietPlan.meals[args.mealIndex];
+        const planFood = meal?.foods[args.foodIndex];
+        if (!meal || planFood === undefined) {
+            throw new ConvexError("That food is no longer part of the plan.");
+        }
+
+        if (typeof planFood !== "string") {
+            return await insertFoodLog(ctx, plan, {
+                date: args.date,
+                mealName: meal.name,
+                source: "plan",
+                food: planFood,
+            });
+        }
+
+        const match = matchFood(planFood, await ctx.db.query("foods").collect());
+        if (!match) {
+            throw new ConvexError(`Couldn't estimate nutrition for '${planFood}'. Search for it instead.`);
+        }
+        return await insertFoodLog(ctx, plan, {
+            date: args.date,
+            mealName: meal.name,
+            source: "plan",
+            foodId: match.food._id,
+            food: { name: planFood, quantity: Math.round(match.grams), unit: "g", ...match.nutrition },
+        });
+    },
+});
+
+// Mutation to log an amount of a food-database entry; nutrition is computed
+// here from the entry rather than trusted from the client.
+export const logDatabaseFood = mutation({
+    args: {
+        planId: v.id("plans"),
+        date: v.string(),
+        mealName: v.string(),
+        foodId: v.id("foods"),
+        quantity: v.number(),
+        unit: v.string(),
+    },
+    handler: async (ctx, args) => {
+        assertDate(args.date);
+        const plan = await getOwnedPlan(ctx, args.planId);
+        assertMealSlot(plan, args.mealName);
+
+        const food = await ctx.db.get(args.foodId);
+        if (!food) {
+            throw new ConvexError("Food not found.");
+        }
+        if (!(args.quantity > 0) || args.quantity > 10000) {
+            throw new ConvexError("Quantity must be a positive number.");
+        }
+        const grams = portionGrams(food, args.quantity, args.unit);
+        if (grams === null) {
+            throw new ConvexError(`'${args.unit}' isn't a known portion for ${food.name}.`);
+        }
+
+        return await insertFoodLog(ctx, plan, {
+            date: args.date,
+            mealName: args.mealName,
+            source: "database",
+            foodId: food._id,
+            food: { name: food.name, quantity: args.quantity, unit: args.unit, ...nutritionForGrams(food, grams) },
+        });
+    },
+});
+
+export const removeFoodLog = mutation({
+    args: { foodLogId: v.id("foodLogs") },
+    handler: async (ctx, args) => {
+        const userId = await requireCurrentUserId(ctx);
+        const log = await ctx.db.get(args.foodLogId);
+        if (!log || log.userId !== userId) {
+            throw new ConvexError("Food log not found.");
+        }
+        await ctx.db.delete(args.foodLogId);
+    },
+});
+
+// Query to get everything the signed-in user logged on one local day, in the
+// order it was logged
+export const getFoodLogs = query({
+    args: { date: v.string() },
+    handler: async (ctx, args) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return [];
+
+        return await ctx.db
+            .query("foodLogs")
+            .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
+            .collect();
+    },
+});
@@ -0,0 +1,218 @@
+// Fuzzy matching of free-form food text ("2 scrambled eggs", "Grilled
+// chicken salad", "1 cup brown rice") against the food database, and the
+// nutrition maths that follows from a match. Pure functions, shared by the
+// Convex queries and the UI.
+
+import { FoodItem, NutritionTotals, PlanFood } from "./nutrition";
+
+export type FoodRecord = {
+    name: string;
+    aliases: string[];
+    per100g: NutritionTotals & { fiber?: number };
+    portions: { unit: string; grams: number }[];
+};
+
+export type FoodMatch<T extends FoodRecord = FoodRecord> = {
+    food: T;
+    score: number;
+    grams: number;
+    nutrition: NutritionTotals;
+};
+
+// Below this a match is more likely wrong than helpful.
+export const MIN_MATCH_SCORE = 0.5;
+
+const STOPWORDS = new Set(["a", "an", "and", "of", "with", "the", "on", "in", "some", "side", "fresh", "plain"]);
+
+const UNIT_GRAMS: Record<string, number> = {
+    g: 1,
+    gram: 1,
+    grams: 1,
+    kg: 1000,
+    oz: 28.35,
+    ounce: 28.35,
+    ounces: 28.35,
+    lb: 453.6,
+    lbs: 453.6,
+    ml: 1,
+    l: 1000,
+};
+
+// Spoken and plural forms of portion units, mapped to the names used in the
+// food data.
+const UNIT_ALIASES: Record<string, string> = {
+    cups: "cup",
+    tablespoon: "tbsp",
+    tablespoons: "tbsp",
+    tbsps: "tbsp",
+    teaspoon: "tsp",
+    teaspoons: "tsp",
+    tsps: "tsp",
+    slices: "slice",
+    pieces: "piece",
+    scoops: "scoop",
+    cans: "can",
+    fillets: "fillet",
+    servings: "serving",
+    squares: "square",
+    handful: "oz",
+    handfuls: "oz",
+};
+
+const FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75, "⅓": 1 / 3, "⅔": 2 / 3 };
+
+function singular(token: string): string {
+    if (token.length > 4 && token.endsWith("ies")) return token.slice(0, -3) + "y";
+    if (token.length > 4 && /(ches|shes|oes)$/.test(token)) return token.slice(0, -2);
+    if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+    return token;
+}
+
+export function tokenize(text: string, stopwords: Set<string> = STOPWORDS): string[] {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, " ")
+        .split(/\s+/)
+        .filter((token) => token && !stopwords.has(token))
+        .map(singular);
+}
+
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+            previous = current;
+        }
+    }
+    return row[b.length];
+}
+
+// 1 for the same token, partial credit for prefixes ("choc" / "chocolate")
+// and near-misses ("brocoli" / "broccoli"), 0 otherwise.
+function tokenSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length >= 3 && b.length >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.8;
+    const longest = Math.max(a.length, b.length);
+    if (longest < 5) return 0;
+    const similarity = 1 - editDistance(a, b) / longest;
+    return similarity >= 0.75 ? similarity * 0.9 : 0;
+}
+
+// Dice-style overlap between two token lists, so extra words on either side
+// ("grilled chicken salad" vs "chicken") lower the score without zeroing it.
+function tokensScore(query: string[], candidate: string[]): number {
+    if (query.length === 0 || candidate.length === 0) return 0;
+    let matched = 0;
+    for (const token of query) {
+        matched += Math.max(...candidate.map((c) => tokenSimilarity(token, c)));
+    }
+    return (2 * matched) / (query.length + candidate.length);
+}
+
+// Best score of the query against any of the names; `stopwords` lets other
+// catalogs (e.g. exercises) drop food-specific filler words like "side".
+export function scoreNameMatch(query: string, names: string[], stopwords?: Set<string>): number {
+    const queryTokens = tokenize(query, stopwords);
+    return Math.max(...names.map((name) => tokensScore(queryTokens, tokenize(name, stopwords))));
+}
+
+export function scoreFoodMatch(query: string, food: FoodRecord): number {
+    return scoreNameMatch(query, [food.name, ...food.aliases]);
+}
+
+export function searchFoodRecords<T extends FoodRecord>(
+    query: string,
+    foods: T[],
+    limit = 10,
+    minScore = 0.3
+): { food: T; score: number }[] {
+    return foods
+        .map((food) => ({ food, score: scoreFoodMatch(query, food) }))
+        .filter((result) => result.score >= minScore)
+        .sort((a, b) => b.score - a.score || a.food.name.localeCompare(b.food.name))
+        .slice(0, limit);
+}
+
+// Splits a leading amount off food text: "150g chicken breast",
+// "1 ½ cups rice", "2 eggs". Text without an amount comes back unchanged.
+export function parseFoodText(text: string): { quantity?: number; unit?: string; name: string } {
+    const match = text
+        .trim()
+        .match(/^(\d+(?:[.,]\d+)?(?:\s*\/\s*\d+)?|[½¼¾⅓⅔])\s*([½¼¾⅓⅔])?\s*([a-zA-Z]+\b)?\s*(?:of\s+)?(.*)$/);
+    if (!match) return { name: text.trim() };
+
+    const [, amount, fraction, unitWord, rest] = match;
+    let quantity = FRACTIONS[amount] ?? 0;
+    if (!quantity) {
+        const [numerator, denominator] = amount.replace(",", ".").split("/").map((part) => parseFloat(part));
+        quantity = denominator ? numerator / denominator : numerator;
+    }
+    if (fraction) quantity += FRACTIONS[fraction];
+
+    const unit = unitWord?.toLowerCase();
+    const normalizedUnit = unit && (UNIT_ALIASES[unit] ?? unit);
+    if (normalizedUnit && (UNIT_GRAMS[normalizedUnit] || /^(cup|tbsp|tsp|slice|piece|scoop|can|fillet|serving|square)$/.test(normalizedUnit))) {
+        return { quantity, unit: normalizedUnit, name: rest.trim() };
+    }
+    // "2 eggs": the word after the number is the food itself
+    return { quantity, name: [unitWord, rest].filter(Boolean).join(" ").trim() };
+}
+
+// Grams for an amount of a food, or null when the unit means nothing for it
+// (e.g. "slice" of rice). Without a unit, the quantity counts default servings.
+export function portionGrams(food: FoodRecord, quantity: number, unit?: string): number | null {
+    const normalized = unit?.trim().toLowerCase();
+    if (!normalized) return quantity * (food.portions[0]?.grams ?? 100);
+
+    const canonical = UNIT_ALIASES[normalized] ?? normalized;
+    if (UNIT_GRAMS[canonical]) return quantity * UNIT_GRAMS[canonical];
+
+    const portion = food.portions.find((p) => p.unit === canonical);
+    if (portion) return quantity * portion.grams;
+
+    const tbsp = food.portions.find((p) => p.unit === "tbsp");
+    if (canonical === "tsp" && tbsp) return (quantity * tbsp.grams) / 3;
+    return null;
+}
+
+export function nutritionForGrams(food: FoodRecord, grams: number): NutritionTotals {
+    const factor = grams / 100;
+    return {
+        calories: Math.round(food.per100g.calories * factor),
+        protein: Math.round(food.per100g.protein * factor * 10) / 10,
+        carbs: Math.round(food.per100g.carbs * factor * 10) / 10,
+        fat: Math.round(food.per100g.fat * factor * 10) / 10,
+    };
+}
+
+// Links a plan food to its closest database entry. Structured foods are
+// matched by name and keep their own quantity and unit; plain strings have
+// any leading amount parsed out first.
+export function matchFood<T extends FoodRecord>(food: PlanFood, foods: T[]): FoodMatch<T> | null {
+    const { quantity, unit, name } =
+        typeof food === "string" ? parseFoodText(food) : { quantity: food.quantity, unit: food.unit, name: food.name };
+
+    // "Oatmeal with berries" is mostly oatmeal, so try the main item first
+    const mainItem = name.split(/\bwith\b/i)[0].trim();
+    const [best] = [
+        ...searchFoodRecords(mainItem || name, foods, 1, MIN_MATCH_SCORE),
+        ...searchFoodRecords(name, foods, 1, MIN_MATCH_SCORE),
+    ];
+    if (!best) return null;
+
+    const grams = portionGrams(best.food, quantity ?? 1, unit) ?? portionGrams(best.food, quantity ?? 1);
+    if (grams === null || grams <= 0) return null;
+
+    return { food: best.food, score: best.score, grams, nutrition: nutritionForGrams(best.food, grams) };
+}
+
+// A structured plan food for one default serving of a database entry.
+export function foodItemFromRecord(food: FoodRecord, name = food.name): FoodItem {
+    const portion = food.portions[0] ?? { unit: "g", grams: 100 };
+    const quantity = portion.unit === "ml" || portion.unit === "g" ? 100 : 1;
+    return { name, quantity, unit: portion.unit, ...nutritionForGrams(food, portion.grams * quantity) };
+}
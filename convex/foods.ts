@@ -0,0 +1,150 @@
+import { internalMutation, internalQuery, MutationCtx, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getOwnedPlan } from "./auth";
+import { FOOD_CSV } from "./foodData";
+import { FoodRecord, matchFood, searchFoodRecords } from "./foodMatching";
+
+const REQUIRED_COLUMNS = ["name", "category", "calories", "protein", "carbs", "fat"];
+
+type FoodRow = FoodRecord & { category: string };
+
+// Splits one CSV line, honouring double-quoted fields so USDA-style names
+// like "Chicken, breast, roasted" survive.
+function splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"' && quoted && line[i + 1] === '"') {
+            current += '"';
+            i++;
+        } else if (char === '"') {
+            quoted = !quoted;
+        } else if (char === "," && !quoted) {
+            fields.push(current.trim());
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current.trim());
+    return fields;
+}
+
+function parseFoodCsv(csv: string): FoodRow[] {
+    const [headerLine, ...lines] = csv.split(/\r?\n/).filter((line) => line.trim());
+    const header = splitCsvLine(headerLine).map((column) => column.toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+    if (missing.length > 0) {
+        throw new Error(`Food CSV is missing columns: ${missing.join(", ")}`);
+    }
+
+    return lines.map((line, index) => {
+        const fields = splitCsvLine(line);
+        const get = (column: string) => fields[header.indexOf(column)] ?? "";
+        const number = (column: string) => {
+            const value = parseFloat(get(column));
+            if (!Number.isFinite(value) || value < 0) {
+                throw new Error(`Food CSV row ${index + 2}: '${column}' must be a non-negative number.`);
+            }
+            return value;
+        };
+
+        const fiber = parseFloat(get("fiber"));
+        return {
+            name: get("name"),
+            category: get("category") || "other",
+            aliases: get("aliases").split("|").map((alias) => alias.trim()).filter(Boolean),
+            per100g: {
+                calories: number("calories"),
+                protein: number("protein"),
+                carbs: number("carbs"),
+                fat: number("fat"),
+                fiber: Number.isFinite(fiber) ? fiber : undefined,
+            },
+            portions: get("portions")
+                .split("|")
+                .map((portion) => portion.split(":"))
+                .filter(([unit, grams]) => unit && parseFloat(grams) > 0)
+                .map(([unit, grams]) => ({ unit: unit.trim().toLowerCase(), grams: parseFloat(grams) })),
+        };
+    });
+}
+
+// Inserts new foods and overwrites existing ones with the same name, so
+// re-running an import picks up corrected values without duplicating rows.
+async function importFoods(ctx: MutationCtx, csv: string) {
+    let inserted = 0;
+    let updated = 0;
+    for (const row of parseFoodCsv(csv)) {
+        const existing = await ctx.db
+            .query("foods")
+            .withIndex("by_name", (q) => q.eq("name", row.name))
+            .first();
+        if (existing) {
+            await ctx.db.replace(existing._id, row);
+            updated++;
+        } else {
+            await ctx.db.insert("foods", row);
+            inserted++;
+        }
+    }
+    return { inserted, updated };
+}
+
+// Loads the bundled dataset: `npx convex run foods:seedFoods`
+export const seedFoods = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        return await importFoods(ctx, FOOD_CSV);
+    },
+});
+
+// Loads any CSV in the bundled layout, e.g. a converted USDA export
+export const importFoodsCsv = internalMutation({
+    args: { csv: v.string() },
+    handler: async (ctx, args) => {
+        return await importFoods(ctx, args.csv);
+    },
+});
+
+// Every food, for server-side matching that runs outside a query (e.g. diet
+// substitutions during plan generation)
+export const listFoods = internalQuery({
+    args: {},
+    handler: async (ctx) => {
+        return await ctx.db.query("foods").collect();
+    },
+});
+
+// The food table is small reference data, so search ranks every row in
+// memory rather than relying on prefix-only full-text search
+export const searchFoods = query({
+    args: { query: v.string(), limit: v.optional(v.number()) },
+    handler: async (ctx, args) => {
+        if (args.query.trim().length < 2) return [];
+
+        const foods = await ctx.db.query("foods").collect();
+        return searchFoodRecords(args.query, foods, Math.min(args.limit ?? 10, 25)).map(({ food }) => food);
+    },
+});
+
+// Query to estimate nutrition for the plain-text foods in a plan's diet, by
+// matching each one to the food database. Entries line up with
+// dietPlan.meals[i].foods[j]; structured foods and unmatched text are null.
+export const matchPlanFoods = query({
+    args: { planId: v.id("plans") },
+    handler: async (ctx, args) => {
+        const plan = await getOwnedPlan(ctx, args.planId);
+        const foods = await ctx.db.query("foods").collect();
+
+        return plan.dietPlan.meals.map((meal) =>
+            meal.foods.map((food) => {
+                if (typeof food !== "string") return null;
+                const match = matchFood(food, foods);
+                return match && { foodId: match.food._id, foodName: match.food.name, grams: match.grams, ...match.nutrition };
+            })
+        );
+    },
+});
@@ -0,0 +1,160 @@
+// iCalendar (RFC 5545) output for the calendar feed: scheduled workouts as
+// all-day events with their routines in the description, and optional daily
+// meal reminders. Meal times are floating (no time zone), so calendar apps
+// show them at the same wall-clock time wherever the user is. Pure functions,
+// used by the feed's HTTP route.
+
+import { Doc } from "./_generated/dataModel";
+import { addDays } from "./calendar";
+import { describeFood } from "./nutrition";
+import { programWeekAt, routineForWeek, weeksSinceStart } from "./periodization";
+import { describeCircuitExercise, describeRoutineTarget, normalizeRoutine } from "./routines";
+
+const PRODUCT_ID = "-//CodeFlex AI//Workout Plan//EN";
+const UID_DOMAIN = "codeflex.ai";
+// How often calendar apps should re-fetch the feed; most poll less often anyway.
+const REFRESH_INTERVAL = "PT6H";
+const MEAL_MINUTES = 30;
+
+// Meal reminder times by meal name; other meals are spread through the day.
+const MEAL_TIMES: [RegExp, string][] = [
+    [/breakfast/i, "08:00"],
+    [/lunch/i, "12:30"],
+    [/snack/i, "15:30"],
+    [/dinner|supper/i, "19:00"],
+];
+
+export function mealTime(name: string, index: number, count: number): string {
+    const named = MEAL_TIMES.find(([pattern]) => pattern.test(name));
+    if (named) return named[1];
+    // evenly between 08:00 and 20:00
+    const minutes = 8 * 60 + Math.round((12 * 60 * index) / Math.max(1, count - 1) / 30) * 30;
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export type IcsEvent = {
+    uid: string;
+    summary: string;
+    description?: string;
+    // YYYY-MM-DD; all-day unless `time` (HH:MM) is given
+    date: string;
+    time?: string;
+    durationMinutes?: number;
+    dailyRepeat?: boolean;
+    reminder?: boolean;
+};
+
+const escapeText = (text: string) =>
+    text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space.
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        if (octets + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+const formatDate = (date: string) => date.replace(/-/g, "");
+const formatTimestamp = (time: number) => new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+    const lines = ["BEGIN:VEVENT", `UID:${event.uid}@${UID_DOMAIN}`, `DTSTAMP:${stamp}`];
+    if (event.time) {
+        lines.push(`DTSTART:${formatDate(event.date)}T${event.time.replace(":", "")}00`);
+        lines.push(`DURATION:PT${event.durationMinutes ?? MEAL_MINUTES}M`);
+    } else {
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`);
+        lines.push(`DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`);
+        lines.push("TRANSP:TRANSPARENT");
+    }
+    if (event.dailyRepeat) lines.push("RRULE:FREQ=DAILY");
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.reminder) {
+        lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escapeText(event.summary)}`, "TRIGGER:PT0M", "END:VALARM");
+    }
+    lines.push("END:VEVENT");
+    return lines;
+}
+
+export function buildCalendar(name: string, events: IcsEvent[], now: number): string {
+    const stamp = formatTimestamp(now);
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+        `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+        `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+        ...events.flatMap((event) => eventLines(event, stamp)),
+        "END:VCALENDAR",
+    ];
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// One line per routine, with the targets of the program week the date falls in.
+export function describeWorkoutDay(plan: Doc<"plans">, day: string, date: string): string {
+    const exerciseDay = plan.workoutPlan.exercises.find((d) => d.day === day);
+    if (!exerciseDay) return "";
+    const { program } = plan.workoutPlan;
+    const programWeek = program && programWeekAt(program, weeksSinceStart(program.startedAt, Date.parse(date)));
+
+    return exerciseDay.routines
+        .map((stored) => {
+            const base = normalizeRoutine(stored);
+            const routine = programWeek ? routineForWeek(base, programWeek) : base;
+            const line = `- ${routine.name}: ${describeRoutineTarget(routine)}`;
+            if (routine.type !== "circuit") return line;
+            return [line, ...routine.exercises.map((exercise) => `    ${describeCircuitExercise(exercise)}`)].join("\n");
+        })
+        .join("\n");
+}
+
+// The feed for one plan: its scheduled workouts and, if asked for, a daily
+// reminder per meal, repeating from the day the plan was made.
+export function planCalendar(
+    plan: Doc<"plans">,
+    workouts: Doc<"scheduledWorkouts">[],
+    includeMeals: boolean,
+    now: number
+): string {
+    const events: IcsEvent[] = workouts.map((workout) => ({
+        uid: workout._id,
+        summary: `Workout: ${workout.day}`,
+        description: describeWorkoutDay(plan, workout.day, workout.date),
+        date: workout.date,
+    }));
+
+    if (includeMeals) {
+        const { meals } = plan.dietPlan;
+        const startDate = new Date(plan._creationTime).toISOString().slice(0, 10);
+        meals.forEach((meal, index) => {
+            events.push({
+                uid: `${plan._id}-meal-${index}`,
+                summary: meal.name,
+                description: meal.foods.map((food) => `- ${describeFood(food)}`).join("\n"),
+                date: startDate,
+                time: mealTime(meal.name, index, meals.length),
+                dailyRepeat: true,
+                reminder: true,
+            });
+        });
+    }
+
+    return buildCalendar(plan.name, events, now);
+}
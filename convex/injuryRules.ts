@@ -0,0 +1,223 @@
+// Injury-aware exercise checks. The intake's free-text injuries ("lower back
+// pain", "torn ACL, bad wrist") are resolved to rules listing movements that
+// load the injured area, matched against routine names. Pure functions,
+// shared by plan generation and the profile page.
+
+import { renameRoutineExercises, routineExerciseNames, StoredRoutine } from "./routines";
+
+export type InjuryRule = {
+    id: string;
+    label: string;
+    // Checked in order; a substitute is a safer movement for the same slot, and
+    // alternatives are tried in order when it can't be used.
+    movements: { name: string; match: RegExp; reason: string; substitute?: string; alternatives?: string[] }[];
+};
+
+export type Contraindication = {
+    dayIndex: number;
+    routineIndex: number;
+    routine: string;
+    rule: InjuryRule;
+    reason: string;
+    substitute?: string;
+};
+
+const RULES: { pattern: RegExp; rule: InjuryRule }[] = [
+    {
+        pattern: /lower back|\blumbar\b|\b(herniated|slipped|bulging) disc|sciatica|back pain|bad back/,
+        rule: {
+            id: "lower-back",
+            label: "lower back",
+            movements: [
+                { name: "Romanian/stiff-leg deadlifts", match: /\b(romanian|stiff[- ]leg(ged)?|rdl)\b/, reason: "loads the spine in a hinge", substitute: "Lying Leg Curl", alternatives: ["Hip Thrust", "Glute Bridge"] },
+                { name: "deadlifts and good mornings", match: /\bdeadlifts?\b|\bgood mornings?\b/, reason: "heavy spinal loading", substitute: "Glute Bridge", alternatives: ["Hip Thrust", "Lying Leg Curl"] },
+                { name: "barbell back squats", match: /\b(back|barbell) squats?\b/, reason: "heavy spinal loading", substitute: "Leg Press", alternatives: ["Goblet Squat"] },
+                { name: "bent-over barbell rows", match: /\bbent[- ]over rows?\b|\bbarbell rows?\b|\bpendlay\b/, reason: "unsupported hinge under load", substitute: "Chest-Supported Dumbbell Row", alternatives: ["Seated Cable Row", "Lat Pulldown"] },
+                { name: "sit-ups and crunches", match: /\b(sit[- ]?ups?|crunch(es)?|toe touch(es)?|v[- ]ups?)\b/, reason: "repeated spinal flexion", substitute: "Dead Bug", alternatives: ["Plank", "Bird Dog"] },
+                { name: "Russian twists", match: /\brussian twists?\b/, reason: "loaded spinal rotation", substitute: "Pallof Press", alternatives: ["Side Plank", "Bird Dog"] },
+                { name: "kettlebell swings", match: /\bkettlebell swings?\b/, reason: "ballistic hinge", substitute: "Glute Bridge", alternatives: ["Hip Thrust", "Bird Dog"] },
+                { name: "standing overhead presses", match: /\b(standing|barbell) (overhead|military) press\b|\bmilitary press\b/, reason: "axial loading while standing", substitute: "Seated Dumbbell Shoulder Press", alternatives: ["Landmine Press"] },
+            ],
+        },
+    },
+    {
+        pattern: /\bknees?\b|\bacl\b|\bmcl\b|menisc|patell/,
+        rule: {
+            id: "knee",
+            label: "knee",
+            movements: [
+                { name: "jumping and plyometrics", match: /\b(jump squats?|box jumps?|jump lunges?|plyometric|burpees?|tuck jumps?)\b/, reason: "high-impact landing", substitute: "Stationary Bike", alternatives: ["Rowing Machine", "Elliptical Trainer"] },
+                { name: "deep and single-leg squats", match: /\b(pistol|sissy|bulgarian split|deep) squats?\b/, reason: "deep loaded knee flexion", substitute: "Box Squat", alternatives: ["Glute Bridge"] },
+                { name: "lunges", match: /\blunges?\b/, reason: "shearing load on the knee", substitute: "Glute Bridge", alternatives: ["Hip Thrust", "Box Squat"] },
+                { name: "leg extensions", match: /\bleg extensions?\b/, reason: "open-chain knee shear", substitute: "Lying Leg Curl", alternatives: ["Glute Bridge"] },
+                { name: "running", match: /\b(running|run|jog|jogging|sprints?|treadmill)\b/, reason: "repetitive impact", substitute: "Stationary Bike", alternatives: ["Rowing Machine", "Elliptical Trainer"] },
+            ],
+        },
+    },
+    {
+        pattern: /shoulder|rotator cuff|impingement|\blabrum\b|\blabral tear\b|dislocat/,
+        rule: {
+            id: "shoulder",
+            label: "shoulder",
+            movements: [
+                { name: "behind-the-neck movements", match: /\bbehind[- ]the[- ]neck\b/, reason: "extreme external rotation", substitute: "Landmine Press", alternatives: ["Lateral Raise"] },
+                { name: "overhead pressing", match: /\b(overhead|military|arnold) press\b|\bpush press\b|\bsnatch\b|\bjerk\b/, reason: "loaded overhead position", substitute: "Landmine Press", alternatives: ["Lateral Raise"] },
+                { name: "upright rows", match: /\bupright rows?\b/, reason: "internal rotation under load (impingement)", substitute: "Face Pull", alternatives: ["Lateral Raise"] },
+                { name: "dips", match: /\bdips?\b/, reason: "deep shoulder extension under bodyweight", substitute: "Cable Triceps Pushdown", alternatives: ["Dumbbell Bench Press"] },
+                { name: "kipping pull-ups", match: /\bkipping\b/, reason: "ballistic overhead swing", substitute: "Lat Pulldown", alternatives: ["Seated Cable Row"] },
+            ],
+        },
+    },
+    {
+        pattern: /wrist|carpal tunnel/,
+        rule: {
+            id: "wrist",
+            label: "wrist",
+            movements: [
+                { name: "front squats", match: /\bfront squats?\b/, reason: "rack position bends the wrist back", substitute: "Goblet Squat", alternatives: ["Leg Press"] },
+                { name: "push-ups", match: /\bpush[- ]?ups?\b/, reason: "bodyweight on an extended wrist", substitute: "Dumbbell Bench Press", alternatives: ["Dumbbell Fly"] },
+                { name: "straight-bar curls", match: /\b(barbell|ez[- ]bar) curls?\b/, reason: "fixed grip angle", substitute: "Hammer Curl", alternatives: ["Dumbbell Biceps Curl"] },
+                { name: "cleans and snatches", match: /\bclean(s)?\b|\bsnatch\b/, reason: "catching load on the wrist", substitute: "Kettlebell Deadlift", alternatives: ["Hip Thrust"] },
+            ],
+        },
+    },
+    {
+        pattern: /elbow|epicondyl/,
+        rule: {
+            id: "elbow",
+            label: "elbow",
+            movements: [
+                { name: "skull crushers", match: /\bskull ?crushers?\b|\blying triceps? extensions?\b/, reason: "heavy load at full elbow flexion", substitute: "Cable Triceps Pushdown" },
+                { name: "chin-ups", match: /\bchin[- ]?ups?\b/, reason: "supinated grip strains the elbow", substitute: "Lat Pulldown", alternatives: ["Seated Cable Row"] },
+                { name: "straight-bar curls", match: /\b(barbell|ez[- ]bar) curls?\b/, reason: "fixed supinated grip", substitute: "Hammer Curl", alternatives: ["Dumbbell Biceps Curl"] },
+            ],
+        },
+    },
+    {
+        pattern: /\bneck\b|cervical|whiplash/,
+        rule: {
+            id: "neck",
+            label: "neck",
+            movements: [
+                { name: "shrugs", match: /\bshrugs?\b/, reason: "loads the upper trapezius and neck", substitute: "Face Pull", alternatives: ["Lateral Raise"] },
+                { name: "behind-the-neck movements", match: /\bbehind[- ]the[- ]neck\b/, reason: "forces the head forward", substitute: "Lat Pulldown", alternatives: ["Seated Cable Row"] },
+                { name: "upright rows", match: /\bupright rows?\b/, reason: "loads the upper trapezius and neck", substitute: "Face Pull", alternatives: ["Lateral Raise"] },
+                { name: "headstands and neck bridges", match: /\bheadstands?\b|\bneck bridges?\b/, reason: "bodyweight on the cervical spine" },
+            ],
+        },
+    },
+    {
+        pattern: /ankle|achilles|plantar|shin splints?/,
+        rule: {
+            id: "ankle",
+            label: "ankle",
+            movements: [
+                { name: "jumping and skipping", match: /\b(jump rope|skipping|box jumps?|jump squats?|burpees?|plyometric|tuck jumps?)\b/, reason: "high-impact landing", substitute: "Stationary Bike", alternatives: ["Rowing Machine"] },
+                { name: "running", match: /\b(running|run|jog|jogging|sprints?|treadmill)\b/, reason: "repetitive impact", substitute: "Stationary Bike", alternatives: ["Rowing Machine"] },
+                { name: "calf raises", match: /\bcalf raises?\b/, reason: "loads the Achilles through full range" },
+            ],
+        },
+    },
+    {
+        pattern: /\bhips?\b|hip flexor|\bgroin\b/,
+        rule: {
+            id: "hip",
+            label: "hip",
+            movements: [
+                { name: "deep and wide-stance squats", match: /\b(deep|pistol|sumo|bulgarian split) squats?\b|\bsumo deadlifts?\b/, reason: "deep or wide hip flexion under load", substitute: "Box Squat", alternatives: ["Leg Press"] },
+                { name: "lunges", match: /\blunges?\b/, reason: "asymmetric hip loading", substitute: "Glute Bridge", alternatives: ["Hip Thrust"] },
+                { name: "leg raises", match: /\b(hanging )?leg raises?\b/, reason: "strains the hip flexors", substitute: "Dead Bug", alternatives: ["Plank"] },
+            ],
+        },
+    },
+];
+
+// "None", "no injuries" and the like resolve to no rules.
+export function resolveInjuryRules(injuries: string): InjuryRule[] {
+    const text = injuries.toLowerCase();
+    if (/^\s*(none|no|n\/a|nothing|no injuries|not really)?\s*\.?\s*$/.test(text)) return [];
+    return RULES.filter(({ pattern }) => pattern.test(text)).map(({ rule }) => rule);
+}
+
+function firstContraindication(name: string, rules: InjuryRule[]) {
+    const lower = name.toLowerCase();
+    for (const rule of rules) {
+        const movement = rule.movements.find(({ match }) => match.test(lower));
+        if (movement) return { rule, movement };
+    }
+    return null;
+}
+
+// Circuits are checked movement by movement; `routine` names the movement.
+export function findContraindications(
+    exercises: { routines: StoredRoutine[] }[],
+    rules: InjuryRule[]
+): Contraindication[] {
+    const found: Contraindication[] = [];
+    exercises.forEach((day, dayIndex) => {
+        day.routines.forEach((routine, routineIndex) => {
+            for (const name of routineExerciseNames(routine)) {
+                const hit = firstContraindication(name, rules);
+                if (!hit) continue;
+                found.push({
+                    dayIndex,
+                    routineIndex,
+                    routine: name,
+                    rule: hit.rule,
+                    reason: hit.movement.reason,
+                    substitute: hit.movement.substitute,
+                });
+            }
+        });
+    });
+    return found;
+}
+
+// Swaps contraindicated exercises for their safer substitute, keeping the
+// routine's sets, reps and timing. A substitute is skipped for the next
+// alternative if it is unsafe for another reported injury, `canUse` rejects
+// it (e.g. missing equipment), or the day already has it: logged sets are
+// keyed by routine name, so two routines on a day must not share one. When
+// none fits, the routine is left as it is and flagged in the UI instead.
+export function applyInjurySubstitutions<P extends { exercises: { routines: R[] }[] }, R extends StoredRoutine>(
+    plan: P,
+    rules: InjuryRule[],
+    canUse: (name: string) => boolean = () => true
+): { value: P; substitutions: { from: string; to: string }[] } {
+    const substitutions: { from: string; to: string }[] = [];
+    if (rules.length === 0) return { value: plan, substitutions };
+
+    const exercises = plan.exercises.map((day) => {
+        const used = new Set(day.routines.flatMap(routineExerciseNames).map((name) => name.toLowerCase()));
+        return {
+            ...day,
+            routines: day.routines.map((routine) =>
+                renameRoutineExercises(routine, (name) => {
+                    const movement = firstContraindication(name, rules)?.movement;
+                    const substitute = [movement?.substitute, ...(movement?.alternatives ?? [])].find(
+                        (candidate): candidate is string =>
+                            candidate !== undefined &&
+                            !used.has(candidate.toLowerCase()) &&
+                            !firstContraindication(candidate, rules) &&
+                            canUse(candidate)
+                    );
+                    if (!substitute) return name;
+                    used.add(substitute.toLowerCase());
+                    substitutions.push({ from: name, to: substitute });
+                    return substitute;
+                })
+            ),
+        };
+    });
+    return { value: { ...plan, exercises }, substitutions };
+}
+
+// One line per rule for the workout prompt.
+export function describeInjuryRules(rules: InjuryRule[]): string {
+    return rules
+        .map((rule) => {
+            const avoid = new Set(rule.movements.map(({ name }) => name));
+            return `- ${rule.label} injury: no ${[...avoid].join(", ")}`;
+        })
+        .join("\n    ");
+}
@@ -0,0 +1,334 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+// Which part of the plan pipeline a prompt belongs to. Real providers only use
+// it for logging; the fixture provider uses it to pick a canned response.
+export type GenerationTask = "workout_plan" | "diet_plan";
+
+export interface GenerateRequest {
+    task: GenerationTask;
+    prompt: string;
+    temperature?: number;
+    topP?: number;
+}
+
+// A provider turns a prompt into the raw text of a JSON document. Parsing and
+// shape checks stay with the caller so every vendor is validated the same way.
+export interface LLMProvider {
+    readonly name: string;
+    generateJSON(request: GenerateRequest): Promise<string>;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "ollama" | "fixture";
+
+const DEFAULT_TEMPERATURE = 0.4;
+const DEFAULT_TOP_P = 0.9;
+
+function requireEnv(name: string): string {
+    const value = process.env[name];
+    if (!value) {
+        throw new Error(`Missing ${name} environment variable`);
+    }
+    return value;
+}
+
+function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+
+class GeminiProvider implements LLMProvider {
+    readonly name = "gemini";
+    private readonly genAI: GoogleGenerativeAI;
+
+    constructor(apiKey: string, private readonly model: string) {
+        this.genAI = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generateJSON(request: GenerateRequest): Promise<string> {
+        const model = this.genAI.getGenerativeModel({
+            model: this.model,
+            generationConfig: {
+                temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+                topP: request.topP ?? DEFAULT_TOP_P,
+                responseMimeType: "application/json",
+            },
+        });
+        const result = await model.generateContent(request.prompt);
+        return result.response.text();
+    }
+}
+
+// Works against OpenAI itself and any server exposing the same
+// /chat/completions contract (Azure-style gateways, vLLM, LM Studio, ...).
+class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = "openai";
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly apiKey: string | undefined,
+        private readonly model: string
+    ) { }
+
+    async generateJSON(request: GenerateRequest): Promise<string> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+                top_p: request.topP ?? DEFAULT_TOP_P,
+                response_format: { type: "json_object" },
+                messages: [{ role: "user", content: request.prompt }],
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`OpenAI-compatible request failed (${response.status}): ${await response.text()}`);
+        }
+
+        const body = await response.json();
+        const content = body?.choices?.[0]?.message?.content;
+        if (typeof content !== "string") {
+            throw new Error("OpenAI-compatible response did not contain message content.");
+        }
+        return content;
+    }
+}
+
+class OllamaProvider implements LLMProvider {
+    readonly name = "ollama";
+
+    constructor(private readonly baseUrl: string, private readonly model: string) { }
+
+    async generateJSON(request: GenerateRequest): Promise<string> {
+        const response = await fetch(`${this.baseUrl}/api/generate`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                model: this.model,
+                prompt: request.prompt,
+                format: "json",
+                stream: false,
+                options: {
+                    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+                    top_p: request.topP ?? DEFAULT_TOP_P,
+                },
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`Ollama request failed (${response.status}): ${await response.text()}`);
+        }
+
+        const body = await response.json();
+        if (typeof body?.response !== "string") {
+            throw new Error("Ollama response did not contain a 'response' string.");
+        }
+        return body.response;
+    }
+}
+
+
+const FIXTURE_RESPONSES: Record<GenerationTask, unknown> = {
+    workout_plan: {
+        schedule: ["Monday", "Wednesday", "Friday"],
+        exercises: [
+            {
+                day: "Monday",
+                routines: [
+                    { type: "reps", name: "Barbell Back Squat", sets: 4, reps: 8, restSeconds: 120, tempo: "3-1-1-0" },
+                    { type: "reps", name: "Push-Ups", sets: 3, reps: 12, restSeconds: 60 },
+                    { type: "time", name: "Plank", sets: 3, durationSeconds: 45, restSeconds: 30 },
+                ],
+            },
+            {
+                day: "Wednesday",
+                routines: [
+                    { type: "reps", name: "Romanian Deadlift", sets: 3, reps: 10, restSeconds: 90 },
+                    {
+                        type: "circuit",
+                        name: "Superset",
+                        rounds: 3,
+                        restSeconds: 90,
+                        exercises: [
+                            { type: "reps", name: "Dumbbell Row", reps: 10 },
+                            { type: "reps", name: "Walking Lunges", reps: 12 },
+                        ],
+                    },
+                ],
+            },
+            {
+                day: "Friday",
+                routines: [
+                    { type: "reps", name: "Dumbbell Bench Press", sets: 4, reps: 10, restSeconds: 90 },
+                    { type: "reps", name: "Lat Pulldown", sets: 3, reps: 12, restSeconds: 60 },
+                    { type: "time", name: "Stationary Bike", sets: 8, durationSeconds: 20, restSeconds: 10 },
+                ],
+            },
+        ],
+    },
+    diet_plan: {
+        dailyCalories: 2000,
+        macros: { protein: 130, carbs: 220, fat: 68 },
+        meals: [
+            {
+                name: "Breakfast",
+                foods: [
+                    { name: "Oatmeal", quantity: 80, unit: "g", calories: 300, protein: 10, carbs: 54, fat: 5 },
+                    { name: "Blueberries", quantity: 100, unit: "g", calories: 57, protein: 1, carbs: 14, fat: 0 },
+                    { name: "Scrambled eggs", quantity: 3, unit: "piece", calories: 273, protein: 19, carbs: 2, fat: 21 },
+                ],
+            },
+            {
+                name: "Lunch",
+                foods: [
+                    { name: "Grilled chicken breast", quantity: 150, unit: "g", calories: 248, protein: 47, carbs: 0, fat: 5 },
+                    { name: "Brown rice", quantity: 200, unit: "g", calories: 246, protein: 5, carbs: 52, fat: 2 },
+                    { name: "Steamed broccoli", quantity: 150, unit: "g", calories: 53, protein: 4, carbs: 11, fat: 1 },
+                ],
+            },
+            {
+                name: "Snack",
+                foods: [
+                    { name: "Apple", quantity: 1, unit: "piece", calories: 95, protein: 0, carbs: 25, fat: 0 },
+                    { name: "Almonds", quantity: 30, unit: "g", calories: 174, protein: 6, carbs: 6, fat: 15 },
+                ],
+            },
+            {
+                name: "Dinner",
+                foods: [
+                    { name: "Baked salmon", quantity: 150, unit: "g", calories: 312, protein: 33, carbs: 0, fat: 19 },
+                    { name: "Sweet potato", quantity: 250, unit: "g", calories: 215, protein: 4, carbs: 50, fat: 0 },
+                    { name: "Mixed green salad", quantity: 100, unit: "g", calories: 20, protein: 2, carbs: 4, fat: 0 },
+                ],
+            },
+        ],
+    },
+};
+
+// Deterministic provider for local development and tests: no network, no key,
+// and the same plan for every request.
+class FixtureProvider implements LLMProvider {
+    readonly name = "fixture";
+
+    async generateJSON(request: GenerateRequest): Promise<string> {
+        return JSON.stringify(FIXTURE_RESPONSES[request.task]);
+    }
+}
+
+
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+    switch (name) {
+        case "gemini":
+            return new GeminiProvider(
+                requireEnv("GEMINI_API_KEY"),
+                process.env.GEMINI_MODEL || "gemini-2.0-flash-001"
+            );
+        case "openai":
+            return new OpenAICompatibleProvider(
+                trimTrailingSlash(process.env.OPENAI_BASE_URL || "https://api.openai.com/v1"),
+                process.env.OPENAI_API_KEY,
+                process.env.OPENAI_MODEL || "gpt-4o-mini"
+            );
+        case "ollama":
+            return new OllamaProvider(
+                trimTrailingSlash(process.env.OLLAMA_BASE_URL || "http://localhost:11434"),
+                process.env.OLLAMA_MODEL || "llama3.1"
+            );
+        case "fixture":
+            return new FixtureProvider();
+    }
+}
+
+// Resolves the provider from the LLM_PROVIDER environment variable, falling
+// back to Gemini so existing deployments keep working unchanged.
+export function getLLMProvider(): LLMProvider {
+    const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+    if (name !== "gemini" && name !== "openai" && name !== "ollama" && name !== "fixture") {
+        throw new Error(
+            `Unknown LLM_PROVIDER "${name}" (expected gemini, openai, ollama or fixture).`
+        );
+    }
+    return createLLMProvider(name);
+}
+
+
+export type ShapeValidator<T> = (obj: unknown) => { value?: T; error?: string };
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_ECHOED_OUTPUT_CHARS = 4000;
+
+function getMaxAttempts(): number {
+    const configured = Number(process.env.LLM_MAX_ATTEMPTS);
+    return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+function buildRepairPrompt(originalPrompt: string, previousOutput: string, error: string): string {
+    const echoed =
+        previousOutput.length > MAX_ECHOED_OUTPUT_CHARS
+            ? `${previousOutput.slice(0, MAX_ECHOED_OUTPUT_CHARS)}…`
+            : previousOutput;
+    return `${originalPrompt}
+
+    CORRECTION REQUIRED:
+    Your previous response was rejected by our validator with this error:
+    ${error}
+
+    Your previous response was:
+    ${echoed}
+
+    Return the corrected JSON object only. Fix the error above and keep to the EXACT structure requested.`;
+}
+
+// Calls the provider until its output parses as JSON and passes `validate`,
+// making at most `maxAttempts` calls in total. Each rejected response (bad
+// JSON or a validation error) is fed back with the error as a repair prompt
+// for the next call. A provider error (network, rate limit) also uses up an
+// attempt and is retried with the same prompt as the failed call.
+export async function generateWithRepair<T>(
+    llm: LLMProvider,
+    request: GenerateRequest,
+    validate: ShapeValidator<T>,
+    maxAttempts = getMaxAttempts()
+): Promise<{ value?: T; error?: string; attempts: number }> {
+    let prompt = request.prompt;
+    let lastError = "No attempts were made.";
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const label = `[${llm.name}] ${request.task} attempt ${attempt}/${maxAttempts}`;
+
+        let text: string;
+        try {
+            text = await llm.generateJSON({ ...request, prompt });
+        } catch (err) {
+            lastError = `Provider error: ${err instanceof Error ? err.message : String(err)}`;
+            console.warn(`${label} failed:`, lastError);
+            continue;
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (err) {
+            lastError = `Response was not valid JSON: ${err instanceof Error ? err.message : String(err)}`;
+            console.warn(`${label} rejected:`, lastError);
+            prompt = buildRepairPrompt(request.prompt, text, lastError);
+            continue;
+        }
+
+        const { value, error } = validate(parsed);
+        if (!error) {
+            console.log(`${label} succeeded.`);
+            return { value, attempts: attempt };
+        }
+
+        lastError = error;
+        console.warn(`${label} rejected:`, lastError);
+        prompt = buildRepairPrompt(request.prompt, text, lastError);
+    }
+
+    return { error: lastError, attempts: maxAttempts };
+}
@@ -0,0 +1,43 @@
+export type MuscleGroup =
+    | "chest"
+    | "back"
+    | "shoulders"
+    | "arms"
+    | "legs"
+    | "glutes"
+    | "core"
+    | "cardio"
+    | "other";
+
+// Keyword rules checked in order, so more specific movements ("leg press",
+// "incline press") must come before the generic words they contain ("press").
+const KEYWORD_RULES: [MuscleGroup, string[]][] = [
+    ["legs", ["squat", "leg press", "lunge", "leg extension", "leg curl", "calf raise", "step-up", "step up"]],
+    ["glutes", ["hip thrust", "glute bridge", "glute", "bridge", "deadlift", "good morning", "kickback"]],
+    ["chest", ["bench press", "bench", "chest", "push-up", "push up", "pushup", "fly", "flye", "dip", "incline", "decline"]],
+    ["back", ["row", "pull-up", "pull up", "pullup", "chin-up", "chin up", "pulldown", "lat", "shrug"]],
+    ["shoulders", ["overhead press", "shoulder", "military press", "lateral raise", "front raise", "face pull", "arnold"]],
+    ["arms", ["curl", "tricep", "bicep", "skull crusher", "hammer"]],
+    ["core", ["plank", "crunch", "sit-up", "sit up", "ab", "russian twist", "leg raise", "dead bug", "mountain climber"]],
+    ["cardio", ["run", "running", "jog", "jogging", "bike", "cycling", "rowing machine", "elliptical", "treadmill", "jump rope", "burpee", "swim", "swimming", "walk", "walking"]],
+    ["shoulders", ["press"]],
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// whole-word match that also accepts plurals ("curls", "lunges", "presses")
+const MATCHERS: [MuscleGroup, RegExp][] = KEYWORD_RULES.map(([group, keywords]) => [
+    group,
+    new RegExp(`\\b(${keywords.map(escapeRegExp).join("|")})(e?s)?\\b`, "i"),
+]);
+
+export function muscleGroupFor(exerciseName: string): MuscleGroup {
+    for (const [group, pattern] of MATCHERS) {
+        if (pattern.test(exerciseName)) {
+            return group;
+        }
+    }
+    return "other";
+}
@@ -0,0 +1,52 @@
+// Nutrition totals for diet plans. Foods are either structured items with
+// their own calories and macros, or plain strings on plans generated before
+// per-food nutrition was tracked; plain strings count as zero.
+
+export type Macros = { protein: number; carbs: number; fat: number };
+
+export type FoodItem = Macros & {
+    name: string;
+    quantity: number;
+    unit: string;
+    calories: number;
+};
+
+export type PlanFood = string | FoodItem;
+
+export type NutritionTotals = Macros & { calories: number };
+
+// Meal totals may differ from the daily target by this fraction before the
+// plan is flagged.
+export const CALORIE_DRIFT_TOLERANCE = 0.1;
+
+export const foodName = (food: PlanFood) => (typeof food === "string" ? food : food.name);
+
+export function describeFood(food: PlanFood): string {
+    if (typeof food === "string") return food;
+    return `${food.name} (${food.quantity} ${food.unit}, ${Math.round(food.calories)} kcal)`;
+}
+
+export function sumNutrition(foods: PlanFood[]): NutritionTotals {
+    const totals: NutritionTotals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+    for (const food of foods) {
+        if (typeof food === "string") continue;
+        totals.calories += food.calories;
+        totals.protein += food.protein;
+        totals.carbs += food.carbs;
+        totals.fat += food.fat;
+    }
+    return totals;
+}
+
+export function planNutrition(meals: { foods: PlanFood[] }[]): NutritionTotals {
+    return sumNutrition(meals.flatMap((meal) => meal.foods));
+}
+
+// Signed fraction by which the meals overshoot (positive) or undershoot
+// (negative) the daily target, or null when no food carries nutrition data.
+export function calorieDrift(plan: { dailyCalories: number; meals: { foods: PlanFood[] }[] }): number | null {
+    if (!plan.meals.some((meal) => meal.foods.some((food) => typeof food !== "string"))) {
+        return null;
+    }
+    return (planNutrition(plan.meals).calories - plan.dailyCalories) / plan.dailyCalories;
+}
@@ -0,0 +1,145 @@
+// Multi-week programs. A workout plan's routines describe week 1; the
+// program lists how every week changes them: more sets and reps while
+// building volume (accumulation), fewer reps at a heavier load
+// (intensification), then a lighter deload before the block repeats. Which
+// week applies is counted from the day the program started. Validators and
+// pure functions, shared by the schema, plan generation and the UI.
+
+import { Infer, v } from "convex/values";
+import { Routine } from "./routines";
+
+export const PHASES = ["accumulation", "intensification", "deload"] as const;
+export type Phase = (typeof PHASES)[number];
+
+// Changes are relative to week 1: sets and reps are added, load is a
+// percentage of week 1's working weight.
+const programWeek = v.object({
+    phase: v.union(v.literal("accumulation"), v.literal("intensification"), v.literal("deload")),
+    setsChange: v.number(),
+    repsChange: v.number(),
+    loadPercent: v.number(),
+});
+
+export const programValidator = v.object({
+    startedAt: v.number(),
+    weeks: v.array(programWeek),
+});
+
+export type ProgramWeek = Infer<typeof programWeek>;
+export type Program = Infer<typeof programValidator>;
+
+const week = (phase: Phase, setsChange: number, repsChange: number, loadPercent: number): ProgramWeek => ({
+    phase,
+    setsChange,
+    repsChange,
+    loadPercent,
+});
+
+// Longer blocks for more experienced lifters, who need more time at higher
+// intensity between deloads.
+const TEMPLATES: { level: RegExp; weeks: ProgramWeek[] }[] = [
+    {
+        level: /advanced|expert|experienced|elite/,
+        weeks: [
+            week("accumulation", 0, 0, 100),
+            week("accumulation", 1, 0, 100),
+            week("accumulation", 1, 2, 100),
+            week("intensification", 0, -2, 107.5),
+            week("intensification", 0, -3, 112.5),
+            week("intensification", 0, -4, 117.5),
+            week("intensification", -1, -5, 122.5),
+            week("deload", -1, -2, 65),
+        ],
+    },
+    {
+        level: /intermediate|moderate|some experience/,
+        weeks: [
+            week("accumulation", 0, 0, 100),
+            week("accumulation", 1, 0, 100),
+            week("accumulation", 1, 2, 100),
+            week("intensification", 0, -2, 107.5),
+            week("intensification", 0, -3, 112.5),
+            week("deload", -1, -2, 70),
+        ],
+    },
+    {
+        level: /.*/,
+        weeks: [
+            week("accumulation", 0, 0, 100),
+            week("accumulation", 0, 2, 100),
+            week("intensification", 1, 0, 105),
+            week("deload", -1, -2, 70),
+        ],
+    },
+];
+
+// Picks the block for the intake's free-text fitness level.
+export function buildProgram(fitnessLevel: string, startedAt: number): Program {
+    const text = fitnessLevel.toLowerCase();
+    const template = TEMPLATES.find(({ level }) => level.test(text))!;
+    return { startedAt, weeks: template.weeks };
+}
+
+// One line per week for the workout prompt.
+export function describeProgram(program: Program): string {
+    return program.weeks
+        .map((w, i) => `- Week ${i + 1}: ${w.phase}${i === 0 ? " (the week you are writing)" : ""}`)
+        .join("\n    ");
+}
+
+const DAY_MS = 86_400_000;
+
+// Weeks are counted in UTC days, so the weekly job, the calendar feed and the
+// browser agree on the program week whatever time zone each runs in.
+const startOfUtcDay = (time: number) => Math.floor(time / DAY_MS) * DAY_MS;
+
+// Whole weeks since `startedAt`.
+export function weeksSinceStart(startedAt: number, now: number): number {
+    const days = Math.round((startOfUtcDay(now) - startOfUtcDay(startedAt)) / DAY_MS);
+    return Math.max(0, Math.floor(days / 7));
+}
+
+// Start of the zero-based `week` counted from `startedAt`.
+export function weekStartTime(startedAt: number, week: number): number {
+    return startOfUtcDay(startedAt) + week * 7 * DAY_MS;
+}
+
+// `week` counts every week since the program started; `index` is the week
+// within the block, which starts over after its last week, so `cycle` is 1
+// for the first run.
+export function currentProgramWeek(program: Program, now: number): { week: number; index: number; cycle: number } {
+    const week = weeksSinceStart(program.startedAt, now);
+    return { week, index: week % program.weeks.length, cycle: Math.floor(week / program.weeks.length) + 1 };
+}
+
+export const programWeekAt = (program: Program, week: number) => program.weeks[week % program.weeks.length];
+
+const atLeastOne = (n: number) => Math.max(1, Math.round(n));
+
+// Week 1's routine with the week's changes applied. Time and distance work
+// only changes its number of sets; circuits change their rounds, and reps
+// inside them change like any other reps.
+export function routineForWeek(routine: Routine, programWeek: ProgramWeek): Routine {
+    const { setsChange, repsChange } = programWeek;
+    switch (routine.type) {
+        case "reps":
+            return { ...routine, sets: atLeastOne(routine.sets + setsChange), reps: atLeastOne(routine.reps + repsChange) };
+        case "time":
+        case "distance":
+            return { ...routine, sets: atLeastOne(routine.sets + setsChange) };
+        case "circuit":
+            return {
+                ...routine,
+                rounds: atLeastOne(routine.rounds + setsChange),
+                exercises: routine.exercises.map((exercise) =>
+                    exercise.type === "reps" ? { ...exercise, reps: atLeastOne(exercise.reps + repsChange) } : exercise
+                ),
+            };
+    }
+}
+
+// "+7.5% load", "70% load", or nothing for week 1's weight.
+export function describeLoad(loadPercent: number): string | null {
+    if (loadPercent === 100) return null;
+    return loadPercent > 100 ? `+${loadPercent - 100}% load` : `${loadPercent}% load`;
+}
@@ -0,0 +1,269 @@
+import { internalAction, internalMutation, internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { ConvexError, Infer, v } from "convex/values";
+import { getCurrentUserId, requireCurrentUserId } from "./auth";
+import { recordOnboardingMetrics } from "./bodyMetrics";
+import { calculateCalorieTargets, groundDietPlan } from "./calorieTargets";
+import { enforceDietaryRules, resolveDietaryRules } from "./dietaryRules";
+import { DEFAULT_EQUIPMENT, missingEquipment } from "./equipment";
+import { canonicalizeWorkoutPlan, checkWorkoutEquipment } from "./exerciseCatalog";
+import { applyInjurySubstitutions, resolveInjuryRules } from "./injuryRules";
+import { profileFromPayload, upsertProfile } from "./fitnessProfiles";
+import { generateWithRepair, getLLMProvider } from "./llm";
+import { buildProgram } from "./periodization";
+import { buildDietPrompt, buildWorkoutPrompt } from "./prompts";
+import {
+    assertDietShape,
+    assertPayloadShape,
+    assertWorkoutShape,
+    GenerateProgramPayload,
+    validateDietPlan,
+    validateWorkoutPlan,
+} from "./planValidation";
+
+const payloadValidator = v.object({
+    age: v.number(),
+    height: v.string(),
+    weight: v.string(),
+    injuries: v.string(),
+    workout_days: v.array(v.string()),
+    fitness_goal: v.string(),
+    fitness_level: v.string(),
+    dietary_restrictions: v.array(v.string()),
+    equipment: v.array(v.string()),
+});
+
+// Records a queued generation job and schedules the action that runs it, so the
+// caller can respond immediately with the job id.
+async function enqueueJob(
+    ctx: MutationCtx,
+    userId: string,
+    payload: Infer<typeof payloadValidator>
+): Promise<Id<"planJobs">> {
+    const jobId = await ctx.db.insert("planJobs", {
+        userId,
+        payload,
+        status: "queued",
+    });
+    await recordOnboardingMetrics(ctx, userId, payload.height, payload.weight);
+    await upsertProfile(ctx, userId, profileFromPayload(payload));
+    await ctx.scheduler.runAfter(0, internal.planJobs.run, { jobId });
+    return jobId;
+}
+
+// Entry point for the Vapi webhook, which has already validated the payload
+export const enqueue = internalMutation({
+    args: {
+        userId: v.string(),
+        payload: payloadValidator,
+    },
+    handler: async (ctx, args): Promise<Id<"planJobs">> => {
+        return await enqueueJob(ctx, args.userId, args.payload);
+    },
+});
+
+// Mutation for the text onboarding form, which runs the same validation as
+// the webhook before joining the same pipeline
+export const requestPlan = mutation({
+    args: payloadValidator.fields,
+    handler: async (ctx, args): Promise<Id<"planJobs">> => {
+        const userId = await requireCurrentUserId(ctx);
+
+        // same rule as the webhook: only users synced from Clerk get plans
+        const user = await ctx.db
+            .query("users")
+            .withIndex("by_clerk_id", (q) => q.eq("clerkId", userId))
+            .first();
+        if (!user) {
+            throw new ConvexError("Your account is still being set up. Please try again in a moment.");
+        }
+
+        const { payload, error } = assertPayloadShape({ user_id: userId, ...args });
+        if (error) {
+            throw new ConvexError(error);
+        }
+        const { user_id, ...fields } = payload!;
+
+        return await enqueueJob(ctx, user_id, fields);
+    },
+});
+
+export const get = internalQuery({
+    args: { jobId: v.id("planJobs") },
+    handler: async (ctx, args) => {
+        return await ctx.db.get(args.jobId);
+    },
+});
+
+export const markRunning = internalMutation({
+    args: { jobId: v.id("planJobs") },
+    handler: async (ctx, args) => {
+        await ctx.db.patch(args.jobId, {
+            status: "running",
+            stage: "workout_plan",
+            startedAt: Date.now(),
+        });
+    },
+});
+
+export const setStage = internalMutation({
+    args: {
+        jobId: v.id("planJobs"),
+        stage: v.union(v.literal("workout_plan"), v.literal("diet_plan"), v.literal("saving")),
+    },
+    handler: async (ctx, args) => {
+        await ctx.db.patch(args.jobId, { stage: args.stage });
+    },
+});
+
+export const markFailed = internalMutation({
+    args: { jobId: v.id("planJobs"), error: v.string() },
+    handler: async (ctx, args) => {
+        await ctx.db.patch(args.jobId, {
+            status: "failed",
+            error: args.error,
+            finishedAt: Date.now(),
+        });
+    },
+});
+
+export const markSucceeded = internalMutation({
+    args: { jobId: v.id("planJobs"), planId: v.id("plans") },
+    handler: async (ctx, args) => {
+        await ctx.db.patch(args.jobId, {
+            status: "succeeded",
+            stage: undefined,
+            planId: args.planId,
+            finishedAt: Date.now(),
+        });
+    },
+});
+
+// Runs both LLM calls and saves the plan, recording progress on the job row.
+// Every failure path ends in markFailed so a job never stays "running".
+export const run = internalAction({
+    args: { jobId: v.id("planJobs") },
+    handler: async (ctx, args): Promise<void> => {
+        const job = await ctx.runQuery(internal.planJobs.get, { jobId: args.jobId });
+        if (!job || job.status !== "queued") {
+            console.warn(`Plan job ${args.jobId} is not queued; skipping.`);
+            return;
+        }
+
+        await ctx.runMutation(internal.planJobs.markRunning, { jobId: args.jobId });
+
+        try {
+            const payload: GenerateProgramPayload = {
+                user_id: job.userId,
+                ...job.payload,
+                equipment: job.payload.equipment ?? DEFAULT_EQUIPMENT,
+            };
+            const llm = getLLMProvider();
+
+            // an empty library (not seeded yet) leaves routine names unconstrained
+            const catalog = await ctx.runQuery(internal.exercises.listExercises, {});
+            const program = buildProgram(payload.fitness_level, Date.now());
+            const usable = catalog.filter((e) => missingEquipment(e.equipment, payload.equipment).length === 0);
+            const { value: workoutPlanChecked, error: workoutError, attempts: workoutAttempts } =
+                await generateWithRepair(
+                    llm,
+                    { task: "workout_plan", prompt: buildWorkoutPrompt(payload, usable.map((e) => e.name), program) },
+                    (obj) => {
+                        const shape = assertWorkoutShape(obj);
+                        if (shape.error) return shape;
+                        const canonical = canonicalizeWorkoutPlan(shape.value!, catalog);
+                        return canonical.error ? canonical : checkWorkoutEquipment(canonical.value!, catalog, payload.equipment);
+                    }
+                );
+            if (workoutError) {
+                console.error(`Workout plan failed after ${workoutAttempts} attempts:`, workoutError);
+                await ctx.runMutation(internal.planJobs.markFailed, {
+                    jobId: args.jobId,
+                    error: `Failed to generate a valid workout plan from AI: ${workoutError}`,
+                });
+                return;
+            }
+            const injurySwaps = applyInjurySubstitutions(
+                workoutPlanChecked!,
+                resolveInjuryRules(payload.injuries),
+                (name) => catalog.length === 0 || usable.some((e) => e.name === name)
+            );
+            for (const { from, to } of injurySwaps.substitutions) {
+                console.log(`Plan job ${args.jobId}: substituted '${to}' for '${from}' (injuries).`);
+            }
+            const workoutPlan = { ...validateWorkoutPlan(injurySwaps.value), program };
+
+            await ctx.runMutation(internal.planJobs.setStage, { jobId: args.jobId, stage: "diet_plan" });
+
+            const targets = calculateCalorieTargets(payload);
+            if (!targets) {
+                console.warn(`Could not calculate calorie targets for plan job ${args.jobId}; letting the model estimate.`);
+            }
+            const { rules, unrecognized } = resolveDietaryRules(payload.dietary_restrictions);
+            if (unrecognized.length > 0) {
+                console.warn(`Plan job ${args.jobId}: no rules for dietary restrictions ${JSON.stringify(unrecognized)}; prompt only.`);
+            }
+            const foods = rules.length > 0 ? await ctx.runQuery(internal.foods.listFoods, {}) : [];
+            const { value: dietPlanChecked, error: dietError, attempts: dietAttempts } =
+                await generateWithRepair(
+                    llm,
+                    { task: "diet_plan", prompt: buildDietPrompt(payload, targets) },
+                    (obj) => {
+                        const shape = assertDietShape(obj, { requireNutrition: true });
+                        const grounded = shape.error || !targets ? shape : groundDietPlan(shape.value!, targets);
+                        if (grounded.error) return grounded;
+
+                        const enforced = enforceDietaryRules(grounded.value!, rules, foods);
+                        for (const { from, to } of enforced.substitutions ?? []) {
+                            console.log(`Plan job ${args.jobId}: substituted '${to}' for '${from}' (dietary restrictions).`);
+                        }
+                        return enforced;
+                    }
+                );
+            if (dietError) {
+                console.error(`Diet plan failed after ${dietAttempts} attempts:`, dietError);
+                await ctx.runMutation(internal.planJobs.markFailed, {
+                    jobId: args.jobId,
+                    error: `Failed to generate a valid diet plan from AI: ${dietError}`,
+                });
+                return;
+            }
+            const dietPlan = validateDietPlan(dietPlanChecked);
+
+            await ctx.runMutation(internal.planJobs.setStage, { jobId: args.jobId, stage: "saving" });
+
+            const planId = await ctx.runMutation(internal.plans.createPlanForUser, {
+                userId: job.userId,
+                dietPlan,
+                isActive: true,
+                workoutPlan,
+                name: `${payload.fitness_goal} Plan - ${new Date().toLocaleDateString()}`,
+            });
+
+            await ctx.runMutation(internal.planJobs.markSucceeded, { jobId: args.jobId, planId });
+        } catch (err) {
+            console.error(`Plan job ${args.jobId} failed:`, err);
+            await ctx.runMutation(internal.planJobs.markFailed, {
+                jobId: args.jobId,
+                error: err instanceof Error ? err.message : String(err),
+            });
+        }
+    },
+});
+
+// Query to get the signed-in user's most recent generation job, for live
+// progress on the generate-program page
+export const getLatestJob = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return null;
+
+        return await ctx.db
+            .query("planJobs")
+            .withIndex("by_user_id", (q) => q.eq("userId", userId))
+            .order("desc")
+            .first();
+    },
+});
@@ -0,0 +1,95 @@
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { getOwnedPlan } from "./auth";
+import { inferRoutineRenames, renameRoutineHistory } from "./routineHistory";
+
+type RevisionInfo = {
+    source: Doc<"planRevisions">["source"];
+    authorId?: string;
+    note?: string;
+};
+
+// Appends a snapshot of the plan's current workout and diet. Call this after
+// every write to either so the history always ends at the live document.
+export async function recordRevision(ctx: MutationCtx, planId: Id<"plans">, info: RevisionInfo) {
+    const plan = await ctx.db.get(planId);
+    if (!plan) {
+        throw new Error(`Plan ${planId} not found`);
+    }
+
+    const latest = await ctx.db
+        .query("planRevisions")
+        .withIndex("by_plan_id", (q) => q.eq("planId", planId))
+        .order("desc")
+        .first();
+
+    return await ctx.db.insert("planRevisions", {
+        planId,
+        userId: plan.userId,
+        revision: (latest?.revision ?? 0) + 1,
+        source: info.source,
+        authorId: info.authorId,
+        note: info.note,
+        workoutPlan: plan.workoutPlan,
+        dietPlan: plan.dietPlan,
+    });
+}
+
+// Plans generated before revisions existed have no history. Snapshot them
+// before their first change so that change can still be diffed and undone.
+export async function ensureBaselineRevision(ctx: MutationCtx, plan: Doc<"plans">) {
+    const existing = await ctx.db
+        .query("planRevisions")
+        .withIndex("by_plan_id", (q) => q.eq("planId", plan._id))
+        .first();
+
+    if (!existing) {
+        await recordRevision(ctx, plan._id, { source: "ai", note: "Original plan" });
+    }
+}
+
+// Query to get a plan's revisions, newest first
+export const getPlanRevisions = query({
+    args: { planId: v.id("plans") },
+    handler: async (ctx, args) => {
+        await getOwnedPlan(ctx, args.planId);
+
+        return await ctx.db
+            .query("planRevisions")
+            .withIndex("by_plan_id", (q) => q.eq("planId", args.planId))
+            .order("desc")
+            .collect();
+    },
+});
+
+// Mutation to roll a plan back to an earlier revision. The rollback itself is
+// recorded as a new revision, so it can be undone the same way. Routines the
+// rollback renames keep their logged sets and adjustments.
+export const restoreRevision = mutation({
+    args: { revisionId: v.id("planRevisions") },
+    handler: async (ctx, args) => {
+        const revision = await ctx.db.get(args.revisionId);
+        if (!revision) {
+            throw new ConvexError("Revision not found.");
+        }
+        const plan = await getOwnedPlan(ctx, revision.planId);
+
+        await ctx.db.patch(plan._id, {
+            workoutPlan: revision.workoutPlan,
+            dietPlan: revision.dietPlan,
+        });
+        await renameRoutineHistory(
+            ctx,
+            plan,
+            revision.workoutPlan,
+            inferRoutineRenames(plan.workoutPlan, revision.workoutPlan)
+        );
+
+        return await recordRevision(ctx, plan._id, {
+            source: "user",
+            authorId: plan.userId,
+            note: `Restored revision ${revision.revision}`,
+        });
+    },
+});
@@ -0,0 +1,396 @@
+import { DEFAULT_EQUIPMENT, parseEquipment } from "./equipment";
+import { Macros, PlanFood } from "./nutrition";
+import { Program } from "./periodization";
+import { CircuitExercise, DISTANCE_UNITS, Routine, ROUTINE_TYPES } from "./routines";
+
+export interface GenerateProgramPayload {
+    user_id: string;
+    age: number;
+    height: string;
+    weight: string;
+    injuries: string;
+    workout_days: string[];
+    fitness_goal: string;
+    fitness_level: string;
+    dietary_restrictions: string[];
+    equipment: string[];
+}
+
+export function assertPayloadShape(
+    obj: unknown
+): { payload?: GenerateProgramPayload; error?: string } {
+    if (obj === null || typeof obj !== "object") {
+        return { error: "Payload is not an object." };
+    }
+    const raw = obj as any;
+
+    if (typeof raw.user_id !== "string") {
+        return { error: "Missing or invalid 'user_id' (expected string)." };
+    }
+    if (typeof raw.age !== "number") {
+        return { error: "Missing or invalid 'age' (expected number)." };
+    }
+    if (typeof raw.height !== "string") {
+        return { error: "Missing or invalid 'height' (expected string)." };
+    }
+    if (typeof raw.weight !== "string") {
+        return { error: "Missing or invalid 'weight' (expected string)." };
+    }
+    if (typeof raw.injuries !== "string") {
+        return { error: "Missing or invalid 'injuries' (expected string)." };
+    }
+    if (
+        !Array.isArray(raw.workout_days) ||
+        raw.workout_days.some((d: unknown) => typeof d !== "string")
+    ) {
+        return { error: "Missing or invalid 'workout_days' (expected string[])." };
+    }
+    if (typeof raw.fitness_goal !== "string") {
+        return { error: "Missing or invalid 'fitness_goal' (expected string)." };
+    }
+    if (typeof raw.fitness_level !== "string") {
+        return { error: "Missing or invalid 'fitness_level' (expected string)." };
+    }
+    if (
+        !Array.isArray(raw.dietary_restrictions) ||
+        raw.dietary_restrictions.some((d: unknown) => typeof d !== "string")
+    ) {
+        return { error: "Missing or invalid 'dietary_restrictions' (expected string[])." };
+    }
+    if (
+        raw.equipment !== undefined &&
+        typeof raw.equipment !== "string" &&
+        (!Array.isArray(raw.equipment) || raw.equipment.some((e: unknown) => typeof e !== "string"))
+    ) {
+        return { error: "Invalid 'equipment' (expected string or string[])." };
+    }
+
+    // The voice webhook and the onboarding form both end up here, so the
+    // value checks below are the single definition of an acceptable intake
+    if (!Number.isInteger(raw.age) || raw.age < 13 || raw.age > 100) {
+        return { error: "'age' must be a whole number between 13 and 100." };
+    }
+    if (!raw.height.trim() || !raw.weight.trim()) {
+        return { error: "'height' and 'weight' must not be empty." };
+    }
+    if (raw.workout_days.filter((d: string) => d.trim()).length === 0) {
+        return { error: "'workout_days' must include at least one day." };
+    }
+    if (!raw.fitness_goal.trim() || !raw.fitness_level.trim()) {
+        return { error: "'fitness_goal' and 'fitness_level' must not be empty." };
+    }
+
+    return {
+        payload: {
+            user_id: raw.user_id,
+            age: raw.age,
+            height: raw.height.trim(),
+            weight: raw.weight.trim(),
+            injuries: raw.injuries.trim(),
+            workout_days: raw.workout_days.map((d: string) => d.trim()).filter(Boolean),
+            fitness_goal: raw.fitness_goal.trim(),
+            fitness_level: raw.fitness_level.trim(),
+            dietary_restrictions: raw.dietary_restrictions.map((d: string) => d.trim()).filter(Boolean),
+            // Older voice workflows don't ask about equipment; those requests
+            // are planned for bodyweight only rather than for gear the user may lack
+            equipment: raw.equipment === undefined ? DEFAULT_EQUIPMENT : parseEquipment([raw.equipment].flat()),
+        },
+    };
+}
+
+// Fills any intake fields the caller left out (or sent as null) from
+// previously saved answers, so returning users only need to mention what
+// changed. Fields that were sent are never overwritten.
+export function applyPayloadDefaults(
+    obj: unknown,
+    defaults: Omit<GenerateProgramPayload, "user_id"> | null
+): unknown {
+    if (!defaults || obj === null || typeof obj !== "object") return obj;
+    const merged: Record<string, unknown> = { ...(obj as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(defaults)) {
+        if (merged[key] === undefined || merged[key] === null) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+
+export type WorkoutPlanShape = {
+    schedule: string[];
+    exercises: {
+        day: string;
+        routines: Routine[];
+    }[];
+    program?: Program;
+};
+
+function isPositiveNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+// Checks one routine, or one movement inside a circuit, against the fields
+// its `type` requires. Returns the first problem found.
+function routineShapeError(r: any, path: string, inCircuit = false): string | undefined {
+    if (r === null || typeof r !== "object") {
+        return `Workout plan ‘${path}’ is not an object.`;
+    }
+    if (typeof r.name !== "string" || !r.name.trim()) {
+        return `Workout plan ‘${path}.name’ must be a non-empty string.`;
+    }
+    const types: readonly string[] = inCircuit ? ROUTINE_TYPES.filter((t) => t !== "circuit") : ROUTINE_TYPES;
+    if (!types.includes(r.type)) {
+        return `Workout plan ‘${path}.type’ must be one of ${types.map((t) => `"${t}"`).join(", ")}.`;
+    }
+
+    if (r.type === "circuit") {
+        if (!isPositiveNumber(r.rounds)) {
+            return `Workout plan ‘${path}.rounds’ must be a positive number.`;
+        }
+        if (!Array.isArray(r.exercises) || r.exercises.length === 0) {
+            return `Workout plan ‘${path}.exercises’ must be a non-empty array.`;
+        }
+        for (let k = 0; k < r.exercises.length; k++) {
+            const error = routineShapeError(r.exercises[k], `${path}.exercises[${k}]`, true);
+            if (error) return error;
+        }
+        if (r.exerciseRestSeconds !== undefined && !isNonNegativeNumber(r.exerciseRestSeconds)) {
+            return `Workout plan ‘${path}.exerciseRestSeconds’ must be a non-negative number.`;
+        }
+    } else if (!inCircuit && !isPositiveNumber(r.sets)) {
+        return `Workout plan ‘${path}.sets’ must be a positive number.`;
+    }
+
+    if (r.type === "reps") {
+        if (!isPositiveNumber(r.reps)) {
+            return `Workout plan ‘${path}.reps’ must be a positive number.`;
+        }
+        if (r.tempo !== undefined && typeof r.tempo !== "string") {
+            return `Workout plan ‘${path}.tempo’ must be string.`;
+        }
+    }
+    if (r.type === "time" && !isPositiveNumber(r.durationSeconds)) {
+        return `Workout plan ‘${path}.durationSeconds’ must be a positive number of seconds.`;
+    }
+    if (r.type === "distance") {
+        if (!isPositiveNumber(r.distance)) {
+            return `Workout plan ‘${path}.distance’ must be a positive number.`;
+        }
+        if (!DISTANCE_UNITS.includes(r.distanceUnit)) {
+            return `Workout plan ‘${path}.distanceUnit’ must be one of ${DISTANCE_UNITS.map((u) => `"${u}"`).join(", ")}.`;
+        }
+    }
+
+    if (!inCircuit) {
+        if (r.restSeconds !== undefined && !isNonNegativeNumber(r.restSeconds)) {
+            return `Workout plan ‘${path}.restSeconds’ must be a non-negative number.`;
+        }
+        if (r.description !== undefined && typeof r.description !== "string") {
+            return `Workout plan ‘${path}.description’ must be string.`;
+        }
+    }
+    return undefined;
+}
+
+export function assertWorkoutShape(
+    obj: unknown
+): { value?: WorkoutPlanShape; error?: string } {
+    if (obj === null || typeof obj !== "object") {
+        return { error: "Workout plan is not an object." };
+    }
+    const raw = obj as any;
+    if (!Array.isArray(raw.schedule) || raw.schedule.some((d: unknown) => typeof d !== "string")) {
+        return { error: "Workout plan ‘schedule’ must be string[]." };
+    }
+    if (!Array.isArray(raw.exercises)) {
+        return { error: "Workout plan ‘exercises’ must be an array." };
+    }
+
+    for (let i = 0; i < raw.exercises.length; i++) {
+        const ex = raw.exercises[i];
+        if (ex === null || typeof ex !== "object") {
+            return { error: `Workout plan ‘exercises[${i}]’ is not an object.` };
+        }
+        if (typeof ex.day !== "string") {
+            return { error: `Workout plan ‘exercises[${i}].day’ must be string.` };
+        }
+        if (!Array.isArray(ex.routines)) {
+            return { error: `Workout plan ‘exercises[${i}].routines’ must be an array.` };
+        }
+        for (let j = 0; j < ex.routines.length; j++) {
+            const error = routineShapeError(ex.routines[j], `exercises[${i}].routines[${j}]`);
+            if (error) return { error };
+        }
+    }
+
+    return { value: raw as WorkoutPlanShape };
+}
+
+export type DietPlanShape = {
+    dailyCalories: number;
+    macros?: Macros;
+    meals: { name: string; foods: PlanFood[] }[];
+};
+
+function isNonNegativeNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+// Plans edited by hand may still contain plain-string foods and no macro
+// targets; `requireNutrition` is set for freshly generated plans, which must
+// carry both.
+export function assertDietShape(
+    obj: unknown,
+    { requireNutrition = false }: { requireNutrition?: boolean } = {}
+): { value?: DietPlanShape; error?: string } {
+    if (obj === null || typeof obj !== "object") {
+        return { error: "Diet plan is not an object." };
+    }
+    const raw = obj as any;
+    if (typeof raw.dailyCalories !== "number" || Number.isNaN(raw.dailyCalories) || raw.dailyCalories <= 0) {
+        return { error: "Diet plan ‘dailyCalories’ must be a positive number." };
+    }
+    if (raw.macros === undefined) {
+        if (requireNutrition) {
+            return { error: "Diet plan ‘macros’ is required." };
+        }
+    } else {
+        if (raw.macros === null || typeof raw.macros !== "object") {
+            return { error: "Diet plan ‘macros’ must be an object." };
+        }
+        for (const key of ["protein", "carbs", "fat"]) {
+            if (!isNonNegativeNumber(raw.macros[key])) {
+                return { error: `Diet plan ‘macros.${key}’ must be a non-negative number of grams.` };
+            }
+        }
+    }
+    if (!Array.isArray(raw.meals)) {
+        return { error: "Diet plan ‘meals’ must be an array." };
+    }
+    for (let i = 0; i < raw.meals.length; i++) {
+        const meal = raw.meals[i];
+        if (meal === null || typeof meal !== "object") {
+            return { error: `Diet plan ‘meals[${i}]’ is not an object.` };
+        }
+        if (typeof meal.name !== "string" || !meal.name.trim()) {
+            return { error: `Diet plan ‘meals[${i}].name’ must be a non-empty string.` };
+        }
+        if (!Array.isArray(meal.foods)) {
+            return { error: `Diet plan ‘meals[${i}].foods’ must be an array.` };
+        }
+        for (let j = 0; j < meal.foods.length; j++) {
+            const food = meal.foods[j];
+            if (typeof food === "string") {
+                if (requireNutrition) {
+                    return { error: `Diet plan ‘meals[${i}].foods[${j}]’ must be an object with nutrition, not a string.` };
+                }
+                if (!food.trim()) {
+                    return { error: `Diet plan ‘meals[${i}].foods[${j}]’ must be a non-empty string.` };
+                }
+                continue;
+            }
+            if (food === null || typeof food !== "object") {
+                return { error: `Diet plan ‘meals[${i}].foods[${j}]’ is not an object.` };
+            }
+            if (typeof food.name !== "string" || !food.name.trim()) {
+                return { error: `Diet plan ‘meals[${i}].foods[${j}].name’ must be a non-empty string.` };
+            }
+            if (typeof food.quantity !== "number" || !(food.quantity > 0)) {
+                return { error: `Diet plan ‘meals[${i}].foods[${j}].quantity’ must be a positive number.` };
+            }
+            if (typeof food.unit !== "string" || !food.unit.trim()) {
+                return { error: `Diet plan ‘meals[${i}].foods[${j}].unit’ must be a non-empty string.` };
+            }
+            for (const key of ["calories", "protein", "carbs", "fat"]) {
+                if (!isNonNegativeNumber(food[key])) {
+                    return { error: `Diet plan ‘meals[${i}].foods[${j}].${key}’ must be a non-negative number.` };
+                }
+            }
+        }
+    }
+
+    return { value: raw as DietPlanShape };
+}
+
+// Keeps only the fields each routine type defines, so stray keys from the
+// model don't reach the plan validators.
+function pickCircuitExercise(exercise: CircuitExercise): CircuitExercise {
+    const { name } = exercise;
+    switch (exercise.type) {
+        case "reps":
+            return { type: "reps", name, reps: exercise.reps, tempo: exercise.tempo };
+        case "time":
+            return { type: "time", name, durationSeconds: exercise.durationSeconds };
+        case "distance":
+            return { type: "distance", name, distance: exercise.distance, distanceUnit: exercise.distanceUnit };
+    }
+}
+
+function pickRoutine(routine: Routine): Routine {
+    const { name, restSeconds, description } = routine;
+    switch (routine.type) {
+        case "reps":
+            return { type: "reps", name, sets: routine.sets, reps: routine.reps, restSeconds, tempo: routine.tempo, description };
+        case "time":
+            return { type: "time", name, sets: routine.sets, durationSeconds: routine.durationSeconds, restSeconds, description };
+        case "distance":
+            return {
+                type: "distance",
+                name,
+                sets: routine.sets,
+                distance: routine.distance,
+                distanceUnit: routine.distanceUnit,
+                restSeconds,
+                description,
+            };
+        case "circuit":
+            return {
+                type: "circuit",
+                name,
+                rounds: routine.rounds,
+                exercises: routine.exercises.map(pickCircuitExercise),
+                exerciseRestSeconds: routine.exerciseRestSeconds,
+                restSeconds,
+                description,
+            };
+    }
+}
+
+export function validateWorkoutPlan(plan: WorkoutPlanShape): WorkoutPlanShape {
+    const validatedPlan = {
+        schedule: plan.schedule,
+        exercises: plan.exercises.map((exercise) => ({
+            day: exercise.day,
+            routines: exercise.routines.map(pickRoutine),
+        })),
+    };
+    return validatedPlan;
+}
+
+export function validateDietPlan(plan: any) {
+    const validatedPlan = {
+        dailyCalories: plan.dailyCalories,
+        macros: plan.macros && {
+            protein: plan.macros.protein,
+            carbs: plan.macros.carbs,
+            fat: plan.macros.fat,
+        },
+        meals: plan.meals.map((meal: any) => ({
+            name: meal.name,
+            foods: meal.foods.map((food: any) =>
+                typeof food === "string"
+                    ? food
+                    : {
+                        name: food.name,
+                        quantity: food.quantity,
+                        unit: food.unit,
+                        calories: food.calories,
+                        protein: food.protein,
+                        carbs: food.carbs,
+                        fat: food.fat,
+                    }
+            ),
+        })),
+    };
+    return validatedPlan;
+}
@@ -1,66 +1,168 @@
-import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { internalMutation, mutation, MutationCtx, query } from "./_generated/server";
+import { ConvexError, Infer, v } from "convex/values";
+import { getCurrentUserId, getOwnedPlan, requireCurrentUserId } from "./auth";
+import { assertDietShape, assertWorkoutShape } from "./planValidation";
+import { ensureBaselineRevision, recordRevision } from "./planRevisions";
+import { programValidator } from "./periodization";
+import { renameRoutineHistory, routineRenameValidator } from "./routineHistory";
+import { routineValidator } from "./routines";
 
-// Mutation to create a new workout & diet plan
-export const createPlan = mutation({
-    args: {
-        userId: v.string(),
-        name: v.string(),
-        workoutPlan: v.object({
-            schedule: v.array(v.string()),
-            exercises: v.array(
-                v.object({
-                    day: v.string(),
-                    routines: v.array(
-                        v.object({
-                            name: v.string(),
-                            sets: v.number(),
-                            reps: v.number(),
-                        })
-                    ),
-                })
-            ),
-        }),
-        dietPlan: v.object({
-            dailyCalories: v.number(),
-            meals: v.array(
-                v.object({
-                    name: v.string(),
-                    foods: v.array(v.string()),
-                })
+const workoutPlanValidator = v.object({
+    schedule: v.array(v.string()),
+    exercises: v.array(
+        v.object({
+            day: v.string(),
+            routines: v.array(routineValidator),
+        })
+    ),
+    program: v.optional(programValidator),
+});
+
+const dietPlanValidator = v.object({
+    dailyCalories: v.number(),
+    macros: v.optional(
+        v.object({
+            protein: v.number(),
+            carbs: v.number(),
+            fat: v.number(),
+        })
+    ),
+    meals: v.array(
+        v.object({
+            name: v.string(),
+            foods: v.array(
+                v.union(
+                    v.string(),
+                    v.object({
+                        name: v.string(),
+                        quantity: v.number(),
+                        unit: v.string(),
+                        calories: v.number(),
+                        protein: v.number(),
+                        carbs: v.number(),
+                        fat: v.number(),
+                    })
+                )
             ),
-        }),
-        isActive: v.boolean(),
-    },
+        })
+    ),
+});
 
-    handler: async (ctx, args) => {
-        // Step 1: Deactivate any existing active plans for the user
-        const activePlans = await ctx.db
-            .query("plans")
-            .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
-            .filter((q) => q.eq(q.field("isActive"), true))
-            .collect();
+const planFields = {
+    name: v.string(),
+    workoutPlan: workoutPlanValidator,
+    dietPlan: dietPlanValidator,
+    isActive: v.boolean(),
+};
+const planValidator = v.object(planFields);
 
-        for (const plans of activePlans) {
-            await ctx.db.patch(plans._id, { isActive: false });
-        }
+async function insertPlan(
+    ctx: MutationCtx,
+    userId: string,
+    plan: Infer<typeof planValidator>,
+    source: "ai" | "user"
+) {
+    // Step 1: Deactivate any existing active plans for the user
+    const activePlans = await ctx.db
+        .query("plans")
+        .withIndex("by_user_id", (q) => q.eq("userId", userId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect();
+
+    for (const plans of activePlans) {
+        await ctx.db.patch(plans._id, { isActive: false });
+    }
+
+    // Step 2: Insert the new plan and record it as the first revision
+    const newPlanId = await ctx.db.insert("plans", { userId, ...plan });
+    await recordRevision(ctx, newPlanId, {
+        source,
+        authorId: source === "user" ? userId : undefined,
+        note: source === "ai" ? "Plan generated" : "Plan created",
+    });
+    return newPlanId;
+}
+
+// Mutation to create a new workout & diet plan for the signed-in user
+export const createPlan = mutation({
+    args: planFields,
+    handler: async (ctx, args) => {
+        const userId = await requireCurrentUserId(ctx);
+        return await insertPlan(ctx, userId, args, "user");
+    },
+});
 
-        // Step 2: Insert the new plan and return its ID
-        const newPlanId = await ctx.db.insert("plans", args);
-        return newPlanId;
+// Internal variant for plan generation jobs, which have already established
+// which user the plan belongs to
+export const createPlanForUser = internalMutation({
+    args: { userId: v.string(), ...planFields },
+    handler: async (ctx, { userId, ...plan }) => {
+        return await insertPlan(ctx, userId, plan, "ai");
     },
 });
 
-// Query to get all plans for a user, ordered by newest first
+// Query to get all of the signed-in user's plans, ordered by newest first
 export const getUserPlans = query({
-    args: { userId: v.string() },
-    handler: async (ctx, args) => {
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return [];
+
         const plans = await ctx.db
             .query("plans")
-            .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+            .withIndex("by_user_id", (q) => q.eq("userId", userId))
             .order("desc")
             .collect();
 
         return plans;
     },
 });
+
+// Mutation to replace a plan's workout with an edited copy. Edits go through
+// the same shape rules as AI output so both paths produce the same documents.
+// `renames` lists routines the user renamed, so their history follows them.
+export const updateWorkoutPlan = mutation({
+    args: {
+        planId: v.id("plans"),
+        workoutPlan: workoutPlanValidator,
+        renames: v.optional(v.array(routineRenameValidator)),
+    },
+    handler: async (ctx, args) => {
+        const plan = await getOwnedPlan(ctx, args.planId);
+
+        const { error } = assertWorkoutShape(args.workoutPlan);
+        if (error) {
+            throw new ConvexError(error);
+        }
+
+        await ensureBaselineRevision(ctx, plan);
+        await ctx.db.patch(args.planId, { workoutPlan: args.workoutPlan });
+        await renameRoutineHistory(ctx, plan, args.workoutPlan, args.renames ?? []);
+        await recordRevision(ctx, args.planId, {
+            source: "user",
+            authorId: plan.userId,
+            note: "Edited workout",
+        });
+    },
+});
+
+// Mutation to replace a plan's diet with an edited copy
+export const updateDietPlan = mutation({
+    args: { planId: v.id("plans"), dietPlan: dietPlanValidator },
+    handler: async (ctx, args) => {
+        const plan = await getOwnedPlan(ctx, args.planId);
+
+        const { error } = assertDietShape(args.dietPlan);
+        if (error) {
+            throw new ConvexError(error);
+        }
+
+        await ensureBaselineRevision(ctx, plan);
+        await ctx.db.patch(args.planId, { dietPlan: args.dietPlan });
+        await recordRevision(ctx, args.planId, {
+            source: "user",
+            authorId: plan.userId,
+            note: "Edited diet",
+        });
+    },
+});
@@ -0,0 +1,162 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { getCurrentUserId } from "./auth";
+import { muscleGroupForExercise } from "./exerciseCatalog";
+import { MuscleGroup } from "./muscleGroups";
+import {
+    brzyckiOneRepMax,
+    epleyOneRepMax,
+    MAX_ESTIMATE_REPS,
+    roundTo,
+    startOfDay,
+    startOfWeek,
+    toKg,
+    WEEK_MS,
+} from "./strength";
+
+// Query to get the signed-in user's training volume (kg × reps) and set count
+// per muscle group for each of the last `weeks` weeks, oldest first
+export const getWeeklyVolume = query({
+    args: { weeks: v.optional(v.number()), tzOffsetMinutes: v.optional(v.number()) },
+    handler: async (ctx, args) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return [];
+
+        const weeks = Math.min(Math.max(Math.floor(args.weeks ?? 8), 1), 52);
+        const currentWeek = startOfWeek(Date.now(), args.tzOffsetMinutes);
+        const firstWeek = currentWeek - (weeks - 1) * WEEK_MS;
+
+        const sets = await ctx.db
+            .query("setLogs")
+            .withIndex("by_user_routine", (q) => q.eq("userId", userId))
+            .filter((q) => q.gte(q.field("_creationTime"), firstWeek))
+            .collect();
+
+        const catalog = await ctx.db.query("exercises").collect();
+        const groupByName = new Map<string, MuscleGroup>();
+
+        const totals = new Map<number, Map<MuscleGroup, { volume: number; sets: number }>>();
+        for (let week = firstWeek; week <= currentWeek; week += WEEK_MS) {
+            totals.set(week, new Map());
+        }
+
+        for (const set of sets) {
+            const week = totals.get(startOfWeek(set._creationTime, args.tzOffsetMinutes));
+            if (!week) continue;
+
+            let group = groupByName.get(set.routineName);
+            if (!group) {
+                group = muscleGroupForExercise(set.routineName, catalog);
+                groupByName.set(set.routineName, group);
+            }
+            const entry = week.get(group) ?? { volume: 0, sets: 0 };
+            entry.sets += 1;
+            if (set.weight !== undefined) {
+                entry.volume += toKg(set.weight, set.weightUnit) * set.reps;
+            }
+            week.set(group, entry);
+        }
+
+        return [...totals.entries()].map(([weekStart, groups]) => ({
+            weekStart,
+            muscleGroups: [...groups.entries()]
+                .map(([muscleGroup, { volume, sets }]) => ({
+                    muscleGroup,
+                    volume: Math.round(volume),
+                    sets,
+                }))
+                .sort((a, b) => b.volume - a.volume),
+        }));
+    },
+});
+
+// Query to get estimated 1RM history and personal records per exercise.
+// Estimates use each day's best set; a PR is any set that beats every earlier
+// set of the same exercise on estimated 1RM or on raw weight.
+export const getStrengthProgress = query({
+    args: { tzOffsetMinutes: v.optional(v.number()) },
+    handler: async (ctx, args) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return [];
+
+        const sets = await ctx.db
+            .query("setLogs")
+            .withIndex("by_user_routine", (q) => q.eq("userId", userId))
+            .collect();
+
+        const catalog = await ctx.db.query("exercises").collect();
+
+        const byExercise = new Map<string, typeof sets>();
+        for (const set of sets) {
+            if (set.weight === undefined || set.weight <= 0 || set.reps < 1) continue;
+            const list = byExercise.get(set.routineName) ?? [];
+            list.push(set);
+            byExercise.set(set.routineName, list);
+        }
+
+        return [...byExercise.entries()]
+            .map(([exercise, exerciseSets]) => {
+                exerciseSets.sort((a, b) => a._creationTime - b._creationTime);
+
+                const points = new Map<number, { date: number; epley: number; brzycki: number }>();
+                const personalRecords: { date: number; type: "e1rm" | "weight"; value: number; reps: number }[] = [];
+                let bestEpley = 0;
+                let bestBrzycki = 0;
+                let heaviest = 0;
+
+                for (const set of exerciseSets) {
+                    const weightKg = toKg(set.weight!, set.weightUnit);
+
+                    if (weightKg > heaviest) {
+                        if (heaviest > 0) {
+                            personalRecords.push({
+                                date: set._creationTime,
+                                type: "weight",
+                                value: roundTo(weightKg),
+                                reps: set.reps,
+                            });
+                        }
+                        heaviest = weightKg;
+                    }
+
+                    if (set.reps > MAX_ESTIMATE_REPS) continue;
+
+                    const epley = epleyOneRepMax(weightKg, set.reps);
+                    const brzycki = brzyckiOneRepMax(weightKg, set.reps);
+                    if (epley > bestEpley) {
+                        if (bestEpley > 0) {
+                            personalRecords.push({
+                                date: set._creationTime,
+                                type: "e1rm",
+                                value: roundTo(epley),
+                                reps: set.reps,
+                            });
+                        }
+                        bestEpley = epley;
+                    }
+                    bestBrzycki = Math.max(bestBrzycki, brzycki);
+
+                    const day = startOfDay(set._creationTime, args.tzOffsetMinutes);
+                    const point = points.get(day);
+                    if (!point || epley > point.epley) {
+                        points.set(day, { date: day, epley, brzycki });
+                    }
+                }
+
+                return {
+                    exercise,
+                    muscleGroup: muscleGroupForExercise(exercise, catalog),
+                    bestEpley: roundTo(bestEpley),
+                    bestBrzycki: roundTo(bestBrzycki),
+                    heaviest: roundTo(heaviest),
+                    points: [...points.values()].map((p) => ({
+                        date: p.date,
+                        epley: roundTo(p.epley),
+                        brzycki: roundTo(p.brzycki),
+                    })),
+                    personalRecords,
+                };
+            })
+            .sort((a, b) => a.exercise.localeCompare(b.exercise));
+    },
+});
@@ -0,0 +1,154 @@
+// Auto-regulation rules. After each program week, every rep-based routine is
+// judged on the sets logged against it (reps hit, RPE) and its next week is
+// bumped, held or deloaded. Each decision carries a reason for the user's
+// changelog. Timed, distance and circuit work is not auto-regulated. Pure
+// functions, shared by the weekly job and the UI.
+
+import { Routine } from "./routines";
+import { kgToLb, lbToKg } from "./units";
+
+export type Decision = "bump" | "hold" | "deload";
+
+export type SetResult = {
+    reps: number;
+    weight?: number;
+    weightUnit?: "kg" | "lb";
+    rpe?: number;
+};
+
+// What one weekly evaluation changed for one routine. `repsOffset` is the
+// total change to the routine's reps so far and carries into later weeks;
+// `targetWeight` is the working weight for `week` only.
+export type RoutineAdjustment = {
+    day: string;
+    routineName: string;
+    week: number;
+    decision: Decision;
+    repsOffset: number;
+    targetWeight?: number;
+    weightUnit?: "kg" | "lb";
+    reason: string;
+};
+
+// Every prescribed set at target reps with the hardest set at most this RPE
+// (or no RPE logged) earns a bump.
+export const BUMP_MAX_RPE = 8;
+// Missing the target on at least this share of prescribed sets, or a set
+// short of target at RPE 10, calls for a deload.
+export const DELOAD_MISSED_SHARE = 0.5;
+export const DELOAD_RPE = 10;
+
+export const BUMP_LOAD_FACTOR = 1.025;
+export const DELOAD_LOAD_FACTOR = 0.9;
+// Smallest plate jump, so a bump always adds at least this much.
+export const LOAD_INCREMENT = { kg: 2.5, lb: 5 };
+// Used instead of load when no weight was logged (bodyweight work).
+export const BUMP_REPS = 1;
+export const DELOAD_REPS = 2;
+
+const pluralize = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+// Sets not logged at all count as missed.
+export function evaluateRoutine(
+    target: { sets: number; reps: number },
+    sets: SetResult[]
+): { decision: Decision; reason: string } | null {
+    if (sets.length === 0) return null;
+
+    const prescribed = sets.slice(0, target.sets);
+    const missed = prescribed.filter((set) => set.reps < target.reps).length + Math.max(0, target.sets - sets.length);
+    const rpes = sets.map((set) => set.rpe).filter((rpe): rpe is number => rpe !== undefined);
+    const maxRpe = rpes.length > 0 ? Math.max(...rpes) : undefined;
+    const failedAtMaxEffort = sets.some((set) => set.reps < target.reps && (set.rpe ?? 0) >= DELOAD_RPE);
+    const goal = `${target.sets} × ${target.reps}`;
+
+    if (missed >= Math.ceil(target.sets * DELOAD_MISSED_SHARE) || failedAtMaxEffort) {
+        return {
+            decision: "deload",
+            reason: failedAtMaxEffort && missed < Math.ceil(target.sets * DELOAD_MISSED_SHARE)
+                ? `Fell short of ${goal} at RPE ${DELOAD_RPE}, so next week backs off to recover.`
+                : `Hit the target reps on ${target.sets - missed} of ${pluralize(target.sets, "set")} (${goal}), so next week backs off to recover.`,
+        };
+    }
+    if (missed === 0 && (maxRpe === undefined || maxRpe <= BUMP_MAX_RPE)) {
+        return {
+            decision: "bump",
+            reason: `Completed ${goal}${maxRpe !== undefined ? ` at RPE ${maxRpe} or easier` : ""}, so next week goes up.`,
+        };
+    }
+    return {
+        decision: "hold",
+        reason: missed > 0
+            ? `Hit the target reps on ${target.sets - missed} of ${pluralize(target.sets, "set")} (${goal}); repeating next week.`
+            : `Completed ${goal} but at RPE ${maxRpe}; repeating next week before adding more.`,
+    };
+}
+
+const roundToIncrement = (weight: number, unit: "kg" | "lb") =>
+    Math.round(weight / LOAD_INCREMENT[unit]) * LOAD_INCREMENT[unit];
+
+// Heaviest logged weight, in the unit of the last weighted set.
+export function topWeight(sets: SetResult[]): { weight: number; unit: "kg" | "lb" } | null {
+    const weighted = sets.filter((set) => set.weight !== undefined && set.weight > 0);
+    if (weighted.length === 0) return null;
+    const unit = weighted[weighted.length - 1].weightUnit ?? "kg";
+    const inUnit = (set: SetResult) => {
+        const setUnit = set.weightUnit ?? "kg";
+        if (setUnit === unit) return set.weight!;
+        return unit === "kg" ? lbToKg(set.weight!) : kgToLb(set.weight!);
+    };
+    return { weight: Math.max(...weighted.map(inUnit)), unit };
+}
+
+// Next week's prescription. Weighted work moves the load; bodyweight work
+// moves the reps. `loadRatio` carries the program's own change in load between
+// the evaluated week and the next (e.g. 107.5 / 100 going into
+// intensification). When the program's next week is itself a deload, a deload
+// decision is prescribed as a hold so the two back-offs don't stack.
+export function nextPrescription(
+    decision: Decision,
+    repsOffset: number,
+    sets: SetResult[],
+    loadRatio = 1,
+    programDeload = false
+): { repsOffset: number; targetWeight?: number; weightUnit?: "kg" | "lb" } {
+    const applied = decision === "deload" && programDeload ? "hold" : decision;
+    const top = topWeight(sets);
+    if (!top) {
+        const change = applied === "bump" ? BUMP_REPS : applied === "deload" ? -DELOAD_REPS : 0;
+        return { repsOffset: repsOffset + change };
+    }
+
+    const increment = LOAD_INCREMENT[top.unit];
+    let weight = top.weight;
+    if (applied === "bump") weight = Math.max(roundToIncrement(weight * BUMP_LOAD_FACTOR, top.unit), weight + increment);
+    if (applied === "deload") weight = weight * DELOAD_LOAD_FACTOR;
+    return {
+        repsOffset,
+        targetWeight: Math.max(increment, roundToIncrement(weight * loadRatio, top.unit)),
+        weightUnit: top.unit,
+    };
+}
+
+// The adjustment in force for a routine in `week`: the latest one made for
+// that week or earlier.
+export function latestAdjustment<A extends Pick<RoutineAdjustment, "day" | "routineName" | "week">>(
+    adjustments: A[],
+    day: string,
+    routineName: string,
+    week: number
+): A | undefined {
+    let latest: A | undefined;
+    for (const adjustment of adjustments) {
+        if (adjustment.day !== day || adjustment.routineName !== routineName || adjustment.week > week) continue;
+        if (!latest || adjustment.week > latest.week) latest = adjustment;
+    }
+    return latest;
+}
+
+// Applies an adjustment's rep change to a rep-based routine; the target
+// weight is shown separately since routines carry no load.
+export function applyAdjustment(routine: Routine, adjustment: Pick<RoutineAdjustment, "repsOffset"> | undefined): Routine {
+    if (!adjustment || routine.type !== "reps") return routine;
+    return { ...routine, reps: Math.max(1, routine.reps + adjustment.repsOffset) };
+}
@@ -0,0 +1,205 @@
+import { CalorieTargets } from "./calorieTargets";
+import { describeDietaryRules, resolveDietaryRules } from "./dietaryRules";
+import { describeEquipment } from "./equipment";
+import { describeInjuryRules, resolveInjuryRules } from "./injuryRules";
+import { describeProgram, Program } from "./periodization";
+import { GenerateProgramPayload } from "./planValidation";
+import { parseHeight, parseIntakeWeight } from "./units";
+
+// Echo what the user said and add the metric value, so the model doesn't have
+// to guess how to read "5'10\"" or "170".
+function describeHeight(height: string): string {
+    const parsed = parseHeight(height);
+    return parsed ? `${height} (${Math.round(parsed.cm)} cm)` : height;
+}
+
+function describeWeight(weight: string, height: string): string {
+    const parsed = parseIntakeWeight(weight, height);
+    return parsed ? `${weight} (${Math.round(parsed.kg)} kg)` : weight;
+}
+
+// Names the movements each recognised injury rules out; anything that slips
+// through is swapped for a safer exercise after generation.
+function describeInjuries(injuries: string): string {
+    const rules = resolveInjuryRules(injuries);
+    if (rules.length === 0) {
+        return "- Design exercises that match the fitness level and account for any injuries";
+    }
+    return `- Design exercises that match the fitness level and STRICTLY account for the injuries
+    - Do not program these movements:
+    ${describeInjuryRules(rules)}`;
+}
+
+// Restricts routine names to the exercise library when it has been seeded.
+function describeExerciseLibrary(exerciseNames: string[]): string {
+    if (exerciseNames.length === 0) return "";
+    return `
+    - Every routine "name" MUST be one of these exercises, spelled exactly as listed:
+      ${exerciseNames.join(", ")}`;
+}
+
+export function buildWorkoutPrompt(
+    {
+        age,
+        height,
+        weight,
+        injuries,
+        workout_days,
+        fitness_goal,
+        fitness_level,
+        equipment,
+    }: GenerateProgramPayload,
+    exerciseNames: string[],
+    program: Program
+): string {
+    return `You are an experienced fitness coach creating a personalized workout plan based on:
+    Age: ${age}
+    Height: ${describeHeight(height)}
+    Weight: ${describeWeight(weight, height)}
+    Injuries or limitations: ${injuries}
+    Available days for workout: ${workout_days}
+    Fitness goal: ${fitness_goal}
+    Fitness level: ${fitness_level}
+    Available equipment: ${describeEquipment(equipment)}
+
+    As a professional coach:
+    - Consider muscle group splits to avoid overtraining the same muscles on consecutive days
+    ${describeInjuries(injuries)}
+    - Structure the workouts to specifically target the user's fitness goal
+    - Only use exercises that can be done with the available equipment
+
+    The plan is the first week of a ${program.weeks.length}-week program:
+    ${describeProgram(program)}
+    Sets, reps and load for the later weeks are progressed automatically from week 1, so write week 1's
+    targets at a moderate effort the user can build on.
+
+    CRITICAL SCHEMA INSTRUCTIONS:
+    - Your output MUST contain ONLY the fields specified below, NO ADDITIONAL FIELDS
+    - Every routine has a "type" that decides its other fields:
+      - "reps" for strength work: "sets", "reps", optional "restSeconds" and "tempo" (e.g. "3-1-1-0")
+      - "time" for holds, steady cardio and intervals: "sets", "durationSeconds", optional "restSeconds"
+        (e.g. 8 sprint intervals of 20s with 10s rest: "sets": 8, "durationSeconds": 20, "restSeconds": 10)
+      - "distance" for runs, rows and carries: "sets", "distance", "distanceUnit" ("m", "km" or "mi"), optional "restSeconds"
+      - "circuit" for circuits and supersets: a label as "name", "rounds", optional "exerciseRestSeconds" and
+        "restSeconds" (after each round), and "exercises", each with "name", "type" ("reps", "time" or "distance")
+        and that type's "reps", "durationSeconds" or "distance" and "distanceUnit"
+    - Optional "description" on any routine for short coaching notes
+    - All counts, durations, distances and rest periods MUST be NUMBERS, never strings
+    - Do NOT use text like "reps": "As many as possible" or "reps": "To failure"; use specific numbers like "reps": 12
+    - Do NOT fake cardio or holds as reps; use "time" or "distance"
+    - NEVER include strings for numerical fields
+    - NEVER add extra fields not shown in the example below${describeExerciseLibrary(exerciseNames)}
+
+    Return a JSON object with this EXACT structure:
+    {
+    "schedule": ["Monday", "Wednesday", "Friday"],
+    "exercises": [
+        {
+        "day": "Monday",
+        "routines": [
+            {
+            "type": "reps",
+            "name": "Exercise Name",
+            "sets": 3,
+            "reps": 10,
+            "restSeconds": 90
+            },
+            {
+            "type": "time",
+            "name": "Exercise Name",
+            "sets": 3,
+            "durationSeconds": 45,
+            "restSeconds": 30
+            },
+            {
+            "type": "circuit",
+            "name": "Finisher",
+            "rounds": 3,
+            "restSeconds": 60,
+            "exercises": [
+                { "name": "Exercise Name", "type": "reps", "reps": 15 },
+                { "name": "Exercise Name", "type": "distance", "distance": 200, "distanceUnit": "m" }
+            ]
+            }
+        ]
+        }
+    ]
+    }
+
+    DO NOT add any fields that are not described above. Your response must be a valid JSON object with no additional text.`;
+}
+
+// States the calculated targets as fixed numbers for the model to plan around,
+// or asks it to estimate when the intake couldn't be parsed.
+function describeCalorieTargets(targets: CalorieTargets | null): string {
+    if (!targets) {
+        return "- Calculate appropriate daily calorie intake based on the person's stats and goals";
+    }
+    const { dailyCalories, macros } = targets;
+    return `- Daily calories have been calculated as ${dailyCalories} kcal (BMR ${targets.bmr}, TDEE ${targets.tdee}, goal: ${targets.goal})
+    - Use EXACTLY "dailyCalories": ${dailyCalories} and "macros": { "protein": ${macros.protein}, "carbs": ${macros.carbs}, "fat": ${macros.fat} }
+    - Choose foods and portions so the meals add up to these targets`;
+}
+
+// Spells out what each recognised restriction rules out, since the plan is
+// checked against exactly these lists afterwards.
+function describeRestrictions(restrictions: string[]): string {
+    const { rules } = resolveDietaryRules(restrictions);
+    if (rules.length === 0) {
+        return "- Include a variety of nutrient-dense foods while respecting dietary restrictions";
+    }
+    return `- Include a variety of nutrient-dense foods while STRICTLY respecting dietary restrictions
+    - Plans containing any of the following are rejected:
+    ${describeDietaryRules(rules)}`;
+}
+
+export function buildDietPrompt(
+    {
+        age,
+        height,
+        weight,
+        fitness_goal,
+        dietary_restrictions,
+    }: GenerateProgramPayload,
+    targets: CalorieTargets | null
+): string {
+    return `You are an experienced nutrition coach creating a personalized diet plan based on:
+    Age: ${age}
+    Height: ${describeHeight(height)}
+    Weight: ${describeWeight(weight, height)}
+    Fitness goal: ${fitness_goal}
+    Dietary restrictions: ${dietary_restrictions}
+
+    As a professional nutrition coach:
+    ${describeCalorieTargets(targets)}
+    - Create a balanced meal plan with proper macronutrient distribution
+    ${describeRestrictions(dietary_restrictions)}
+    - Consider meal timing around workouts for optimal performance and recovery
+
+    CRITICAL SCHEMA INSTRUCTIONS:
+    - Your output MUST contain ONLY the fields specified below, NO ADDITIONAL FIELDS
+    - "dailyCalories" MUST be a NUMBER, not a string
+    - "macros" holds the DAILY protein, carbs and fat targets in GRAMS, as NUMBERS
+    - Each meal should include ONLY a "name" and "foods" array
+    - Each food MUST be an object with "name", "quantity" (a NUMBER), "unit" (e.g. "g", "ml", "cup", "piece"),
+      and its "calories", "protein", "carbs" and "fat" (grams) for that quantity, all as NUMBERS
+    - The calories of all foods across all meals MUST add up to within 5% of "dailyCalories"
+    - DO NOT add fields like "supplements", "notes", or ANYTHING else
+
+    Return a JSON object with this EXACT structure and no other fields:
+    {
+    "dailyCalories": 2000,
+    "macros": { "protein": 150, "carbs": 200, "fat": 67 },
+    "meals": [
+        {
+        "name": "Breakfast",
+        "foods": [
+            { "name": "Oatmeal", "quantity": 80, "unit": "g", "calories": 300, "protein": 10, "carbs": 54, "fat": 5 },
+            { "name": "Greek yogurt", "quantity": 200, "unit": "g", "calories": 146, "protein": 20, "carbs": 8, "fat": 4 }
+        ]
+        }
+    ]
+    }
+
+    DO NOT add any fields that are not in this example. Your response must be a valid JSON object with no additional text.`;
+}
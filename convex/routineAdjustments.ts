@@ -0,0 +1,142 @@
+import { internal } from "./_generated/api";
+import { internalMutation, MutationCtx, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { getOwnedPlan } from "./auth";
+import { programWeekAt, routineForWeek, weeksSinceStart, weekStartTime } from "./periodization";
+import { applyAdjustment, evaluateRoutine, latestAdjustment, nextPrescription } from "./progression";
+import { normalizeRoutine } from "./routines";
+
+// Judges the week before `now` for one plan and records next week's
+// adjustments. Each week is evaluated once, so re-running is harmless.
+async function recordAdjustments(ctx: MutationCtx, plan: Doc<"plans">, now: number) {
+    const { program } = plan.workoutPlan;
+    const startedAt = program?.startedAt ?? plan._creationTime;
+    const week = weeksSinceStart(startedAt, now);
+    if (week < 1) return 0;
+
+    const adjustments = await ctx.db
+        .query("routineAdjustments")
+        .withIndex("by_plan_week", (q) => q.eq("planId", plan._id))
+        .collect();
+    if (adjustments.some((adjustment) => adjustment.week === week)) return 0;
+
+    const evaluated = week - 1;
+    const from = weekStartTime(startedAt, evaluated);
+    const to = weekStartTime(startedAt, week);
+    const sessions = await ctx.db
+        .query("workoutSessions")
+        .withIndex("by_plan_id", (q) => q.eq("planId", plan._id))
+        .filter((q) =>
+            q.and(
+                q.eq(q.field("status"), "completed"),
+                q.gte(q.field("startedAt"), from),
+                q.lt(q.field("startedAt"), to)
+            )
+        )
+        .collect();
+    if (sessions.length === 0) return 0;
+
+    const sets: Doc<"setLogs">[] = [];
+    for (const session of sessions) {
+        const logged = await ctx.db
+            .query("setLogs")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", session._id))
+            .collect();
+        sets.push(...logged);
+    }
+
+    const thisWeek = program && programWeekAt(program, evaluated);
+    const nextWeek = program && programWeekAt(program, week);
+    const loadRatio = thisWeek && nextWeek ? nextWeek.loadPercent / thisWeek.loadPercent : 1;
+
+    let recorded = 0;
+    for (const exerciseDay of plan.workoutPlan.exercises) {
+        for (const stored of exerciseDay.routines) {
+            const base = normalizeRoutine(stored);
+            if (base.type !== "reps") continue;
+
+            const previous = latestAdjustment(adjustments, exerciseDay.day, base.name, evaluated);
+            const target = applyAdjustment(thisWeek ? routineForWeek(base, thisWeek) : base, previous);
+            if (target.type !== "reps") continue;
+
+            const logged = sets
+                .filter((set) => set.day === exerciseDay.day && set.routineName === base.name)
+                .sort((a, b) => a._creationTime - b._creationTime);
+            const result = evaluateRoutine(target, logged);
+            if (!result) continue;
+
+            const programDeload = nextWeek?.phase === "deload";
+            const next = nextPrescription(result.decision, previous?.repsOffset ?? 0, logged, loadRatio, programDeload);
+            const phaseNote = result.decision === "deload" && programDeload
+                ? " Next week is already a deload in the program, so nothing extra is taken off."
+                : nextWeek && thisWeek && nextWeek.phase !== thisWeek.phase
+                    ? ` Next week also starts the ${nextWeek.phase} phase.`
+                    : "";
+            await ctx.db.insert("routineAdjustments", {
+                userId: plan.userId,
+                planId: plan._id,
+                day: exerciseDay.day,
+                routineName: base.name,
+                week,
+                decision: result.decision,
+                ...next,
+                reason: result.reason + phaseNote,
+                createdAt: now,
+            });
+            recorded++;
+        }
+    }
+    return recorded;
+}
+
+const PLANS_PER_PAGE = 100;
+
+// Evaluates one plan in its own transaction, so a large or broken plan
+// doesn't hold up the others.
+export const regulatePlan = internalMutation({
+    args: { planId: v.id("plans") },
+    handler: async (ctx, args) => {
+        const plan = await ctx.db.get(args.planId);
+        if (!plan || !plan.isActive) return;
+
+        const recorded = await recordAdjustments(ctx, plan, Date.now());
+        if (recorded > 0) {
+            console.log(`Auto-regulation recorded ${recorded} adjustments for plan ${plan._id}.`);
+        }
+    },
+});
+
+// Run daily by the cron in crons.ts; each active plan is evaluated on the
+// first run after one of its program weeks ends. Pages through active plans,
+// scheduling a regulatePlan per plan and then itself for the next page.
+export const regulateActivePlans = internalMutation({
+    args: { cursor: v.optional(v.string()) },
+    handler: async (ctx, args) => {
+        const { page, isDone, continueCursor } = await ctx.db
+            .query("plans")
+            .withIndex("by_active", (q) => q.eq("isActive", true))
+            .paginate({ numItems: PLANS_PER_PAGE, cursor: args.cursor ?? null });
+
+        for (const plan of page) {
+            await ctx.scheduler.runAfter(0, internal.routineAdjustments.regulatePlan, { planId: plan._id });
+        }
+        if (!isDone) {
+            await ctx.scheduler.runAfter(0, internal.routineAdjustments.regulateActivePlans, { cursor: continueCursor });
+        }
+    },
+});
+
+// Query to get a plan's adjustments, newest week first, for the changelog and
+// for applying the current week's targets
+export const getPlanAdjustments = query({
+    args: { planId: v.id("plans") },
+    handler: async (ctx, args) => {
+        await getOwnedPlan(ctx, args.planId);
+        return await ctx.db
+            .query("routineAdjustments")
+            .withIndex("by_plan_week", (q) => q.eq("planId", args.planId))
+            .order("desc")
+            .collect();
+    },
+});
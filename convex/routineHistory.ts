@@ -0,0 +1,65 @@
+import { MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { Infer, v } from "convex/values";
+
+type WorkoutPlan = Doc<"plans">["workoutPlan"];
+
+export const routineRenameValidator = v.object({ day: v.string(), from: v.string(), to: v.string() });
+
+export type RoutineRename = Infer<typeof routineRenameValidator>;
+
+const hasRoutine = (workoutPlan: WorkoutPlan, day: string, name: string) =>
+    workoutPlan.exercises.some((d) => d.day === day && d.routines.some((routine) => routine.name === name));
+
+// Logged sets and auto-regulation are keyed by routine name, so a renamed
+// routine takes its history along. All matches are read before any are
+// patched, so two routines can swap names.
+export async function renameRoutineHistory(
+    ctx: MutationCtx,
+    plan: Doc<"plans">,
+    workoutPlan: WorkoutPlan,
+    renames: RoutineRename[]
+) {
+    const valid = renames.filter(
+        ({ day, from, to }) => from !== to && hasRoutine(plan.workoutPlan, day, from) && hasRoutine(workoutPlan, day, to)
+    );
+
+    const patches: (() => Promise<void>)[] = [];
+    for (const { day, from, to } of valid) {
+        const sets = await ctx.db
+            .query("setLogs")
+            .withIndex("by_user_routine", (q) => q.eq("userId", plan.userId).eq("routineName", from))
+            .filter((q) => q.and(q.eq(q.field("planId"), plan._id), q.eq(q.field("day"), day)))
+            .collect();
+        const adjustments = await ctx.db
+            .query("routineAdjustments")
+            .withIndex("by_plan_week", (q) => q.eq("planId", plan._id))
+            .filter((q) => q.and(q.eq(q.field("day"), day), q.eq(q.field("routineName"), from)))
+            .collect();
+        patches.push(
+            ...sets.map((set) => () => ctx.db.patch(set._id, { routineName: to })),
+            ...adjustments.map((adjustment) => () => ctx.db.patch(adjustment._id, { routineName: to }))
+        );
+    }
+    for (const patch of patches) {
+        await patch();
+    }
+}
+
+// Renames between two versions of a plan that don't say what was renamed
+// (a restored revision): a routine whose name changed in the same place on
+// the same day. Names that still exist elsewhere on the day were moved, not
+// renamed, and are left alone.
+export function inferRoutineRenames(from: WorkoutPlan, to: WorkoutPlan): RoutineRename[] {
+    const renames: RoutineRename[] = [];
+    for (const { day, routines } of to.exercises) {
+        const before = from.exercises.find((d) => d.day === day)?.routines ?? [];
+        routines.forEach((routine, index) => {
+            const previous = before[index];
+            if (!previous || previous.name === routine.name) return;
+            if (routines.some((r) => r.name === previous.name) || before.some((r) => r.name === routine.name)) return;
+            renames.push({ day, from: previous.name, to: routine.name });
+        });
+    }
+    return renames;
+}
@@ -0,0 +1,174 @@
+// Workout routines come in four kinds: rep-based sets, timed sets (holds,
+// intervals), distance efforts, and circuits/supersets that cycle through
+// several exercises per round. Plans generated before routines were typed
+// store a loose shape with no `type`; normalizeRoutine reads those as one of
+// the typed kinds. Validators and pure helpers, shared by the schema, plan
+// mutations, generation and the UI.
+
+import { Infer, v } from "convex/values";
+
+export const ROUTINE_TYPES = ["reps", "time", "distance", "circuit"] as const;
+export type RoutineType = (typeof ROUTINE_TYPES)[number];
+
+export const DISTANCE_UNITS = ["m", "km", "mi"] as const;
+export type DistanceUnit = (typeof DISTANCE_UNITS)[number];
+
+const distanceUnitValidator = v.union(v.literal("m"), v.literal("km"), v.literal("mi"));
+
+// All rest periods are in seconds, taken after each set (or each round of a
+// circuit).
+const repsRoutine = v.object({
+    type: v.literal("reps"),
+    name: v.string(),
+    sets: v.number(),
+    reps: v.number(),
+    restSeconds: v.optional(v.number()),
+    // eccentric-pause-concentric-pause, e.g. "3-1-1-0"
+    tempo: v.optional(v.string()),
+    description: v.optional(v.string()),
+});
+
+const timeRoutine = v.object({
+    type: v.literal("time"),
+    name: v.string(),
+    sets: v.number(),
+    durationSeconds: v.number(),
+    restSeconds: v.optional(v.number()),
+    description: v.optional(v.string()),
+});
+
+const distanceRoutine = v.object({
+    type: v.literal("distance"),
+    name: v.string(),
+    sets: v.number(),
+    distance: v.number(),
+    distanceUnit: distanceUnitValidator,
+    restSeconds: v.optional(v.number()),
+    description: v.optional(v.string()),
+});
+
+const circuitExercise = v.union(
+    v.object({ type: v.literal("reps"), name: v.string(), reps: v.number(), tempo: v.optional(v.string()) }),
+    v.object({ type: v.literal("time"), name: v.string(), durationSeconds: v.number() }),
+    v.object({ type: v.literal("distance"), name: v.string(), distance: v.number(), distanceUnit: distanceUnitValidator })
+);
+
+// `name` labels the block ("Finisher", "Superset A"); the movements are in
+// `exercises`, done back to back with `exerciseRestSeconds` between them.
+const circuitRoutine = v.object({
+    type: v.literal("circuit"),
+    name: v.string(),
+    rounds: v.number(),
+    exercises: v.array(circuitExercise),
+    exerciseRestSeconds: v.optional(v.number()),
+    restSeconds: v.optional(v.number()),
+    description: v.optional(v.string()),
+});
+
+const legacyRoutine = v.object({
+    name: v.string(),
+    sets: v.optional(v.number()),
+    reps: v.optional(v.number()),
+    duration: v.optional(v.string()),
+    description: v.optional(v.string()),
+    exercises: v.optional(v.array(v.string())),
+});
+
+// What plan mutations accept.
+export const routineValidator = v.union(repsRoutine, timeRoutine, distanceRoutine, circuitRoutine);
+
+// What plan documents may contain.
+export const storedRoutineValidator = v.union(repsRoutine, timeRoutine, distanceRoutine, circuitRoutine, legacyRoutine);
+
+export type Routine = Infer<typeof routineValidator>;
+export type CircuitExercise = Infer<typeof circuitExercise>;
+export type LegacyRoutine = Infer<typeof legacyRoutine>;
+export type StoredRoutine = Routine | LegacyRoutine;
+
+export const isLegacyRoutine = (routine: StoredRoutine): routine is LegacyRoutine => !("type" in routine);
+
+// Reads "45 seconds", "20 min", "1:30" or "1 hour" as seconds.
+export function parseDurationSeconds(text: string): number | null {
+    const clock = text.trim().match(/^(\d+):([0-5]\d)$/);
+    if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+    const match = text.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds?|m|min|mins|minutes?|h|hr|hrs|hours?)\b/);
+    if (!match) return null;
+    const value = Number(match[1]);
+    if (match[2].startsWith("h")) return Math.round(value * 3600);
+    if (match[2].startsWith("m")) return Math.round(value * 60);
+    return Math.round(value);
+}
+
+// Legacy routines with a readable duration become timed sets, ones listing
+// sub-exercises become circuits, and everything else is sets × reps.
+export function normalizeRoutine(routine: StoredRoutine): Routine {
+    if (!isLegacyRoutine(routine)) return routine;
+    const { name, sets = 1, reps = 1, duration, description, exercises } = routine;
+
+    if (exercises && exercises.length > 0) {
+        return {
+            type: "circuit",
+            name,
+            rounds: sets,
+            exercises: exercises.map((exercise) => ({ type: "reps" as const, name: exercise, reps })),
+            description,
+        };
+    }
+    const durationSeconds = duration ? parseDurationSeconds(duration) : null;
+    if (durationSeconds) {
+        return { type: "time", name, sets, durationSeconds, description };
+    }
+    return { type: "reps", name, sets, reps, description: [duration, description].filter(Boolean).join(" · ") || undefined };
+}
+
+// The exercise names a routine asks for: the circuit's movements, or the
+// routine itself.
+export function routineExerciseNames(routine: StoredRoutine): string[] {
+    return !isLegacyRoutine(routine) && routine.type === "circuit"
+        ? routine.exercises.map((exercise) => exercise.name)
+        : [routine.name];
+}
+
+// Renames the exercises a routine asks for (see routineExerciseNames),
+// leaving a circuit's own label alone.
+export function renameRoutineExercises<R extends StoredRoutine>(routine: R, rename: (name: string) => string): R {
+    if (!isLegacyRoutine(routine) && routine.type === "circuit") {
+        return { ...routine, exercises: routine.exercises.map((exercise) => ({ ...exercise, name: rename(exercise.name) })) };
+    }
+    return { ...routine, name: rename(routine.name) };
+}
+
+export function formatSeconds(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds % 60 === 0) return `${seconds / 60} min`;
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const formatDistance = (distance: number, unit: DistanceUnit) => `${distance} ${unit}`;
+
+function describeEffort(exercise: CircuitExercise): string {
+    if (exercise.type === "reps") return `${exercise.reps} reps`;
+    if (exercise.type === "time") return formatSeconds(exercise.durationSeconds);
+    return formatDistance(exercise.distance, exercise.distanceUnit);
+}
+
+// Short target for badges and diffs: "4 × 8 reps", "8 × 20s / 10s rest",
+// "3 rounds / 90s rest".
+export function describeRoutineTarget(stored: StoredRoutine): string {
+    const routine = normalizeRoutine(stored);
+    const rest = routine.restSeconds ? ` / ${formatSeconds(routine.restSeconds)} rest` : "";
+    switch (routine.type) {
+        case "reps":
+            return `${routine.sets} × ${routine.reps} reps${routine.tempo ? ` @ ${routine.tempo}` : ""}${rest}`;
+        case "time":
+            return `${routine.sets} × ${formatSeconds(routine.durationSeconds)}${rest}`;
+        case "distance":
+            return `${routine.sets} × ${formatDistance(routine.distance, routine.distanceUnit)}${rest}`;
+        case "circuit":
+            return `${routine.rounds} ${routine.rounds === 1 ? "round" : "rounds"}${rest}`;
+    }
+}
+
+// One line per circuit movement: "Burpees — 10 reps".
+export const describeCircuitExercise = (exercise: CircuitExercise) => `${exercise.name} — ${describeEffort(exercise)}`;
@@ -0,0 +1,164 @@
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { getOwnedPlan, requireCurrentUserId } from "./auth";
+import { buildSchedule, DEFAULT_SCHEDULE_WEEKS, isDate, scheduleStatus } from "./calendar";
+
+function assertDate(date: string) {
+    if (!isDate(date)) {
+        throw new ConvexError("Date must be formatted as YYYY-MM-DD.");
+    }
+}
+
+async function getOwnedWorkout(ctx: QueryCtx, workoutId: Id<"scheduledWorkouts">) {
+    const userId = await requireCurrentUserId(ctx);
+    const workout = await ctx.db.get(workoutId);
+    if (!workout || workout.userId !== userId) {
+        throw new ConvexError("Scheduled workout not found.");
+    }
+    return workout;
+}
+
+async function getReschedulableWorkout(ctx: QueryCtx, workoutId: Id<"scheduledWorkouts">) {
+    const workout = await getOwnedWorkout(ctx, workoutId);
+    if (workout.status === "completed") {
+        throw new ConvexError("This workout has already been done.");
+    }
+    return workout;
+}
+
+// Mutation to lay a plan's days out on the calendar from `startDate`, for the
+// length of its program (or four weeks). Replaces whatever was still
+// scheduled from that date on, for this or any earlier plan; completed and
+// skipped workouts stay as history, and so do workouts with a session under
+// way.
+export const generateSchedule = mutation({
+    args: { planId: v.id("plans"), startDate: v.string() },
+    handler: async (ctx, args) => {
+        const plan = await getOwnedPlan(ctx, args.planId);
+        assertDate(args.startDate);
+
+        const entries = buildSchedule(
+            plan.workoutPlan,
+            args.startDate,
+            plan.workoutPlan.program?.weeks.length ?? DEFAULT_SCHEDULE_WEEKS
+        );
+        if (entries.length === 0) {
+            throw new ConvexError("None of this plan's days fall on a weekday, so it can't be put on a calendar.");
+        }
+
+        const upcoming = await ctx.db
+            .query("scheduledWorkouts")
+            .withIndex("by_user_date", (q) => q.eq("userId", plan.userId).gte("date", args.startDate))
+            .filter((q) => q.eq(q.field("status"), "scheduled"))
+            .collect();
+        const started = upcoming.filter((workout) => workout.sessionId !== undefined);
+        for (const workout of upcoming) {
+            if (workout.sessionId === undefined) await ctx.db.delete(workout._id);
+        }
+
+        let inserted = 0;
+        for (const { date, day } of entries) {
+            if (started.some((workout) => workout.planId === plan._id && workout.date === date && workout.day === day)) {
+                continue;
+            }
+            inserted++;
+            await ctx.db.insert("scheduledWorkouts", {
+                userId: plan.userId,
+                planId: plan._id,
+                date,
+                day,
+                status: "scheduled",
+            });
+        }
+        return inserted;
+    },
+});
+
+// Query to get a plan's workouts between two dates (inclusive), with workouts
+// left undone before `today` reported as missed. Earlier plans' workouts are
+// left out, so they don't linger as missed once a new plan takes over.
+export const getSchedule = query({
+    args: { planId: v.id("plans"), from: v.string(), to: v.string(), today: v.string() },
+    handler: async (ctx, args) => {
+        await getOwnedPlan(ctx, args.planId);
+        const workouts = await ctx.db
+            .query("scheduledWorkouts")
+            .withIndex("by_plan_date", (q) => q.eq("planId", args.planId).gte("date", args.from).lte("date", args.to))
+            .collect();
+        return workouts.map((workout) => ({ ...workout, status: scheduleStatus(workout, args.today) }));
+    },
+});
+
+// Query to get what a plan has scheduled on one date. `hasSchedule` tells an
+// empty day apart from a plan that was never put on the calendar.
+export const getScheduledDay = query({
+    args: { planId: v.id("plans"), date: v.string() },
+    handler: async (ctx, args) => {
+        await getOwnedPlan(ctx, args.planId);
+        const hasSchedule = (await ctx.db
+            .query("scheduledWorkouts")
+            .withIndex("by_plan_date", (q) => q.eq("planId", args.planId))
+            .first()) !== null;
+        const workouts = await ctx.db
+            .query("scheduledWorkouts")
+            .withIndex("by_plan_date", (q) => q.eq("planId", args.planId).eq("date", args.date))
+            .collect();
+        return { hasSchedule, workouts };
+    },
+});
+
+// Mutation to move a workout to another date from `today` (the client's date)
+// on. A date that already has one of the plan's workouts is refused;
+// swapWorkouts exchanges the two instead.
+export const moveWorkout = mutation({
+    args: { workoutId: v.id("scheduledWorkouts"), date: v.string(), today: v.string() },
+    handler: async (ctx, args) => {
+        const workout = await getReschedulableWorkout(ctx, args.workoutId);
+        assertDate(args.date);
+        if (args.date === workout.date) return;
+        if (args.date < args.today) {
+            throw new ConvexError("Workouts can't be moved to a day that has already passed.");
+        }
+
+        const occupied = await ctx.db
+            .query("scheduledWorkouts")
+            .withIndex("by_plan_date", (q) => q.eq("planId", workout.planId).eq("date", args.date))
+            .filter((q) => q.neq(q.field("status"), "skipped"))
+            .first();
+        if (occupied) {
+            throw new ConvexError(`${occupied.day} is already on ${args.date}. Swap the two workouts instead.`);
+        }
+
+        await ctx.db.patch(workout._id, {
+            date: args.date,
+            status: "scheduled",
+            originalDate: workout.originalDate ?? workout.date,
+        });
+    },
+});
+
+// Mutation to exchange the dates of two workouts
+export const swapWorkouts = mutation({
+    args: { workoutId: v.id("scheduledWorkouts"), otherWorkoutId: v.id("scheduledWorkouts") },
+    handler: async (ctx, args) => {
+        const workout = await getReschedulableWorkout(ctx, args.workoutId);
+        const other = await getReschedulableWorkout(ctx, args.otherWorkoutId);
+        if (workout._id === other._id) return;
+        if (workout.planId !== other.planId) {
+            throw new ConvexError("Only workouts from the same plan can be swapped.");
+        }
+
+        await ctx.db.patch(workout._id, { date: other.date, originalDate: workout.originalDate ?? workout.date });
+        await ctx.db.patch(other._id, { date: workout.date, originalDate: other.originalDate ?? other.date });
+    },
+});
+
+// Mutation to skip a workout, or put a skipped one back on the calendar
+export const setSkipped = mutation({
+    args: { workoutId: v.id("scheduledWorkouts"), skipped: v.boolean() },
+    handler: async (ctx, args) => {
+        const workout = await getReschedulableWorkout(ctx, args.workoutId);
+        await ctx.db.patch(workout._id, { status: args.skipped ? "skipped" : "scheduled" });
+    },
+});
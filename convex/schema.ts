@@ -1,5 +1,51 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { programValidator } from "./periodization";
+import { storedRoutineValidator } from "./routines";
+
+const workoutPlan = v.object({
+    schedule: v.array(v.string()),
+    exercises: v.array(
+        v.object({
+            day: v.string(),
+            routines: v.array(storedRoutineValidator),
+        })
+    ),
+    // how each week changes the routines above; absent on single-week plans
+    program: v.optional(programValidator),
+});
+
+const dietPlan = v.object({
+    dailyCalories: v.number(),
+    // daily targets in grams; absent on plans generated before macros were tracked
+    macros: v.optional(
+        v.object({
+            protein: v.number(),
+            carbs: v.number(),
+            fat: v.number(),
+        })
+    ),
+    meals: v.array(
+        v.object({
+            name: v.string(),
+            // plain strings are foods from before per-food nutrition was tracked
+            foods: v.array(
+                v.union(
+                    v.string(),
+                    v.object({
+                        name: v.string(),
+                        quantity: v.number(),
+                        unit: v.string(),
+                        calories: v.number(),
+                        protein: v.number(),
+                        carbs: v.number(),
+                        fat: v.number(),
+                    })
+                )
+            ),
+        })
+    ),
+});
 
 export default defineSchema({
     users: defineTable({
@@ -7,40 +53,209 @@ export default defineSchema({
         email: v.string(),
         image: v.optional(v.string()),
         clerkId: v.string(),
+        units: v.optional(v.union(v.literal("metric"), v.literal("imperial"))),
     }).index("by_clerk_id", ["clerkId"]),
 
     plans: defineTable({
         userId: v.string(),
         name: v.string(),
-        workoutPlan: v.object({
-            schedule: v.array(v.string()),
-            exercises: v.array(
-                v.object({
-                    day: v.string(),
-                    routines: v.array(
-                        v.object({
-                            name: v.string(),
-                            sets: v.optional(v.number()),
-                            reps: v.optional(v.number()),
-                            duration: v.optional(v.string()),
-                            description: v.optional(v.string()),
-                            exercises: v.optional(v.array(v.string())),
-                        })
-                    ),
-                })
-            ),
-        }),
-        dietPlan: v.object({
-            dailyCalories: v.number(),
-            meals: v.array(
-                v.object({
-                    name: v.string(),
-                    foods: v.array(v.string()),
-                })
-            ),
-        }),
+        workoutPlan,
+        dietPlan,
         isActive: v.boolean(),
     })
         .index("by_user_id", ["userId"])
         .index("by_active", ["isActive"]),
+
+    // Snapshot of a plan's workout and diet after every change, so edits can
+    // be diffed and rolled back
+    planRevisions: defineTable({
+        planId: v.id("plans"),
+        userId: v.string(),
+        revision: v.number(),
+        source: v.union(v.literal("ai"), v.literal("user"), v.literal("coach")),
+        authorId: v.optional(v.string()),
+        note: v.optional(v.string()),
+        workoutPlan,
+        dietPlan,
+    }).index("by_plan_id", ["planId", "revision"]),
+
+    // A workout the user performed against one day of a plan
+    workoutSessions: defineTable({
+        userId: v.string(),
+        planId: v.id("plans"),
+        day: v.string(),
+        status: v.union(v.literal("in_progress"), v.literal("completed")),
+        startedAt: v.number(),
+        finishedAt: v.optional(v.number()),
+        notes: v.optional(v.string()),
+    })
+        .index("by_user_status", ["userId", "status"])
+        .index("by_plan_id", ["planId"]),
+
+    // One performed set, keyed to the plan routine it was prescribed by
+    setLogs: defineTable({
+        sessionId: v.id("workoutSessions"),
+        userId: v.string(),
+        planId: v.id("plans"),
+        day: v.string(),
+        routineName: v.string(),
+        setNumber: v.number(),
+        reps: v.number(),
+        weight: v.optional(v.number()),
+        weightUnit: v.optional(v.union(v.literal("kg"), v.literal("lb"))),
+        rpe: v.optional(v.number()),
+    })
+        .index("by_session_id", ["sessionId"])
+        .index("by_user_routine", ["userId", "routineName"]),
+
+    // One plan day on a concrete date. Missed workouts aren't stored: a
+    // "scheduled" workout whose date has passed is reported as missed.
+    scheduledWorkouts: defineTable({
+        userId: v.string(),
+        planId: v.id("plans"),
+        // YYYY-MM-DD in the user's time zone
+        date: v.string(),
+        day: v.string(),
+        status: v.union(v.literal("scheduled"), v.literal("completed"), v.literal("skipped")),
+        // the date it was first scheduled for, once moved
+        originalDate: v.optional(v.string()),
+        sessionId: v.optional(v.id("workoutSessions")),
+    })
+        .index("by_user_date", ["userId", "date"])
+        .index("by_plan_date", ["planId", "date"])
+        .index("by_session_id", ["sessionId"]),
+
+    // A user's calendar subscription. The token in the feed URL is the only
+    // credential, since calendar apps can't sign in.
+    calendarFeeds: defineTable({
+        userId: v.string(),
+        token: v.string(),
+        includeMeals: v.boolean(),
+        createdAt: v.number(),
+    })
+        .index("by_user_id", ["userId"])
+        .index("by_token", ["token"]),
+
+    // Weekly auto-regulation decisions, one per rep-based routine that had
+    // sets logged; shown to the user as a changelog. `week` is the program
+    // week the adjustment applies to, counted from the plan's start.
+    routineAdjustments: defineTable({
+        userId: v.string(),
+        planId: v.id("plans"),
+        day: v.string(),
+        routineName: v.string(),
+        week: v.number(),
+        decision: v.union(v.literal("bump"), v.literal("hold"), v.literal("deload")),
+        repsOffset: v.number(),
+        targetWeight: v.optional(v.number()),
+        weightUnit: v.optional(v.union(v.literal("kg"), v.literal("lb"))),
+        reason: v.string(),
+        createdAt: v.number(),
+    }).index("by_plan_week", ["planId", "week"]),
+
+    // Body measurements over time, always stored in metric units
+    bodyMetrics: defineTable({
+        userId: v.string(),
+        recordedAt: v.number(),
+        source: v.union(v.literal("manual"), v.literal("onboarding")),
+        weightKg: v.optional(v.number()),
+        heightCm: v.optional(v.number()),
+        bodyFatPercent: v.optional(v.number()),
+        waistCm: v.optional(v.number()),
+    }).index("by_user_recorded", ["userId", "recordedAt"]),
+
+    // What the user told the onboarding agent, kept so later plans can start
+    // from it instead of asking again
+    fitnessProfiles: defineTable({
+        userId: v.string(),
+        age: v.number(),
+        height: v.string(),
+        weight: v.string(),
+        injuries: v.string(),
+        workoutDays: v.array(v.string()),
+        fitnessGoal: v.string(),
+        fitnessLevel: v.string(),
+        dietaryRestrictions: v.array(v.string()),
+        // missing on profiles saved before equipment was collected
+        equipment: v.optional(v.array(v.string())),
+        updatedAt: v.number(),
+    }).index("by_user_id", ["userId"]),
+
+    planJobs: defineTable({
+        userId: v.string(),
+        payload: v.object({
+            age: v.number(),
+            height: v.string(),
+            weight: v.string(),
+            injuries: v.string(),
+            workout_days: v.array(v.string()),
+            fitness_goal: v.string(),
+            fitness_level: v.string(),
+            dietary_restrictions: v.array(v.string()),
+            equipment: v.optional(v.array(v.string())),
+        }),
+        status: v.union(
+            v.literal("queued"),
+            v.literal("running"),
+            v.literal("failed"),
+            v.literal("succeeded")
+        ),
+        stage: v.optional(
+            v.union(v.literal("workout_plan"), v.literal("diet_plan"), v.literal("saving"))
+        ),
+        error: v.optional(v.string()),
+        planId: v.optional(v.id("plans")),
+        startedAt: v.optional(v.number()),
+        finishedAt: v.optional(v.number()),
+    }).index("by_user_id", ["userId"]),
+
+    // What the user actually ate, one row per food, filed under a meal slot of
+    // the plan they were following. `date` is the user's local calendar day
+    // (YYYY-MM-DD) so a late dinner stays on the right day.
+    foodLogs: defineTable({
+        userId: v.string(),
+        planId: v.id("plans"),
+        date: v.string(),
+        mealName: v.string(),
+        source: v.union(v.literal("plan"), v.literal("database")),
+        foodId: v.optional(v.id("foods")),
+        name: v.string(),
+        quantity: v.number(),
+        unit: v.string(),
+        calories: v.number(),
+        protein: v.number(),
+        carbs: v.number(),
+        fat: v.number(),
+        loggedAt: v.number(),
+    }).index("by_user_date", ["userId", "date"]),
+
+    // Food composition reference data, per 100 g, imported from CSV
+    foods: defineTable({
+        name: v.string(),
+        category: v.string(),
+        aliases: v.array(v.string()),
+        per100g: v.object({
+            calories: v.number(),
+            protein: v.number(),
+            carbs: v.number(),
+            fat: v.number(),
+            fiber: v.optional(v.number()),
+        }),
+        // first entry is the default serving
+        portions: v.array(v.object({ unit: v.string(), grams: v.number() })),
+    }).index("by_name", ["name"]),
+
+    // Canonical exercise library that generated routine names resolve to
+    exercises: defineTable({
+        name: v.string(),
+        aliases: v.array(v.string()),
+        primaryMuscles: v.array(v.string()),
+        secondaryMuscles: v.array(v.string()),
+        // empty for bodyweight movements
+        equipment: v.array(v.string()),
+        difficulty: v.union(v.literal("beginner"), v.literal("intermediate"), v.literal("advanced")),
+        movementPattern: v.string(),
+        // step-by-step instructions, in order
+        cues: v.array(v.string()),
+    }).index("by_name", ["name"]),
 });
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { lbToKg } from "./units";
+
+// Pure helpers for strength analytics. Weights are normalised to kilograms
+// before any aggregation so sets logged in different units can be compared.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+// Rep-based 1RM formulas lose accuracy quickly past ~12 reps, so higher-rep
+// sets are left out of estimates rather than reported with false precision.
+export const MAX_ESTIMATE_REPS = 12;
+
+export function toKg(weight: number, unit: "kg" | "lb" | undefined): number {
+    return unit === "lb" ? lbToKg(weight) : weight;
+}
+
+export function epleyOneRepMax(weight: number, reps: number): number {
+    return reps === 1 ? weight : weight * (1 + reps / 30);
+}
+
+export function brzyckiOneRepMax(weight: number, reps: number): number {
+    return (weight * 36) / (37 - reps);
+}
+
+// Trimmed to the step's decimals, since multiplying back by a step like 0.1
+// leaves float noise (100.10000000000001).
+export function roundTo(value: number, step = 0.1): number {
+    const decimals = String(step).split(".")[1]?.length ?? 0;
+    return Number((Math.round(value / step) * step).toFixed(decimals));
+}
+
+// Monday 00:00 of the week containing `timestamp`, in the caller's local time.
+// `tzOffsetMinutes` follows Date.prototype.getTimezoneOffset (UTC minus local).
+export function startOfWeek(timestamp: number, tzOffsetMinutes = 0): number {
+    const offsetMs = tzOffsetMinutes * 60 * 1000;
+    const local = new Date(timestamp - offsetMs);
+    const daysSinceMonday = (local.getUTCDay() + 6) % 7;
+    const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+    return localMidnight - daysSinceMonday * DAY_MS + offsetMs;
+}
+
+export function startOfDay(timestamp: number, tzOffsetMinutes = 0): number {
+    const offsetMs = tzOffsetMinutes * 60 * 1000;
+    const local = new Date(timestamp - offsetMs);
+    return Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) + offsetMs;
+}
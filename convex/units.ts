@@ -0,0 +1,112 @@
+// Unit conversion and parsing for body measurements. Everything is stored in
+// metric (kg, cm); imperial only exists at the edges, in what users type or
+// say and in what the UI displays.
+
+export type UnitSystem = "metric" | "imperial";
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_INCH = 2.54;
+const LB_PER_STONE = 14;
+
+export const lbToKg = (lb: number) => lb * KG_PER_LB;
+export const kgToLb = (kg: number) => kg / KG_PER_LB;
+export const inToCm = (inches: number) => inches * CM_PER_INCH;
+export const cmToIn = (cm: number) => cm / CM_PER_INCH;
+
+// Plausible adult ranges; anything outside is treated as a mis-hearing rather
+// than stored.
+const HEIGHT_CM_RANGE = [50, 260];
+const WEIGHT_KG_RANGE = [20, 400];
+
+const NUMBER = String.raw`(\d+(?:[.,]\d+)?)`;
+
+function toNumber(text: string): number {
+    return parseFloat(text.replace(",", "."));
+}
+
+function inRange(value: number, [min, max]: number[]): boolean {
+    return Number.isFinite(value) && value >= min && value <= max;
+}
+
+// Parses the free-form height the voice agent sends: 5'10", 5 ft 10 in,
+// "5 feet 10 inches", 70 in, 178 cm, 1.78 m. Bare numbers are read as cm,
+// metres, feet or inches depending on their magnitude.
+export function parseHeight(input: string): { cm: number; system: UnitSystem } | null {
+    const text = input.trim().toLowerCase();
+
+    const feetInches = text.match(
+        new RegExp(String.raw`^${NUMBER}\s*(?:'|’|ft|feet|foot)\s*,?\s*(?:and\s+)?(?:${NUMBER}\s*(?:"|”|''|’’|in|inch|inches)?)?$`)
+    );
+    if (feetInches) {
+        const cm = inToCm(toNumber(feetInches[1]) * 12 + (feetInches[2] ? toNumber(feetInches[2]) : 0));
+        return inRange(cm, HEIGHT_CM_RANGE) ? { cm, system: "imperial" } : null;
+    }
+
+    const withUnit = text.match(new RegExp(String.raw`^${NUMBER}\s*(cm|centimet(?:er|re)s?|m|met(?:er|re)s?|"|”|in|inch|inches)$`));
+    if (withUnit) {
+        const value = toNumber(withUnit[1]);
+        const unit = withUnit[2];
+        const result: { cm: number; system: UnitSystem } = unit.startsWith("c")
+            ? { cm: value, system: "metric" }
+            : unit.startsWith("m")
+                ? { cm: value * 100, system: "metric" }
+                : { cm: inToCm(value), system: "imperial" };
+        return inRange(result.cm, HEIGHT_CM_RANGE) ? result : null;
+    }
+
+    const bare = text.match(new RegExp(String.raw`^${NUMBER}$`));
+    if (bare) {
+        const value = toNumber(bare[1]);
+        const result: { cm: number; system: UnitSystem } =
+            value >= 100 ? { cm: value, system: "metric" }
+                : value < 3 ? { cm: value * 100, system: "metric" }
+                    : value <= 8 ? { cm: inToCm(value * 12), system: "imperial" }
+                        : { cm: inToCm(value), system: "imperial" };
+        return inRange(result.cm, HEIGHT_CM_RANGE) ? result : null;
+    }
+
+    return null;
+}
+
+// Parses weights such as "170 lbs", "77 kg", "12 st 3 lb". A bare number is
+// read in `fallback` units, since "170" alone could be either.
+export function parseWeight(
+    input: string,
+    fallback: UnitSystem = "imperial"
+): { kg: number; system: UnitSystem } | null {
+    const text = input.trim().toLowerCase();
+
+    const stone = text.match(new RegExp(String.raw`^${NUMBER}\s*(?:st|stone)\s*(?:${NUMBER}\s*(?:lb|lbs|pounds?)?)?$`));
+    if (stone) {
+        const kg = lbToKg(toNumber(stone[1]) * LB_PER_STONE + (stone[2] ? toNumber(stone[2]) : 0));
+        return inRange(kg, WEIGHT_KG_RANGE) ? { kg, system: "imperial" } : null;
+    }
+
+    const withUnit = text.match(new RegExp(String.raw`^${NUMBER}\s*(kg|kgs|kilos?|kilograms?|lb|lbs|pounds?)$`));
+    if (withUnit) {
+        const value = toNumber(withUnit[1]);
+        const result: { kg: number; system: UnitSystem } = withUnit[2].startsWith("k")
+            ? { kg: value, system: "metric" }
+            : { kg: lbToKg(value), system: "imperial" };
+        return inRange(result.kg, WEIGHT_KG_RANGE) ? result : null;
+    }
+
+    const bare = text.match(new RegExp(String.raw`^${NUMBER}$`));
+    if (bare) {
+        const value = toNumber(bare[1]);
+        const kg = fallback === "metric" ? value : lbToKg(value);
+        return inRange(kg, WEIGHT_KG_RANGE) ? { kg, system: fallback } : null;
+    }
+
+    return null;
+}
+
+// The intake's weight next to its height: a bare weight ("80") is read in the
+// system the height was given in. Stored metrics, calorie targets and the
+// plan prompt all go through this so they agree on what was said.
+export function parseIntakeWeight(
+    weight: string,
+    height: string
+): { kg: number; system: UnitSystem } | null {
+    return parseWeight(weight, parseHeight(height)?.system);
+}
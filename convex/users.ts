@@ -1,7 +1,10 @@
-import { mutation } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getCurrentUserId, requireCurrentUserId } from "./auth";
 
-export const syncUser = mutation({
+// Only the Clerk webhook creates and updates users, so a client can't make up
+// the row that the Vapi webhook and plan requests check for
+export const syncUser = internalMutation({
     args: {
         name: v.string(),
         email: v.string(),
@@ -20,7 +23,7 @@ export const syncUser = mutation({
     },
 });
 
-export const updateUser = mutation({
+export const updateUser = internalMutation({
     args: {
         name: v.string(),
         email: v.string(),
@@ -37,4 +40,42 @@ export const updateUser = mutation({
 
         return await ctx.db.patch(existingUser._id, args);
     },
-});
\ No newline at end of file
+});
+
+export const getByClerkId = internalQuery({
+    args: { clerkId: v.string() },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("users")
+            .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+            .first();
+    },
+});
+
+export const getCurrentUser = query({
+    args: {},
+    handler: async (ctx) => {
+        const clerkId = await getCurrentUserId(ctx);
+        if (!clerkId) return null;
+
+        return await ctx.db
+            .query("users")
+            .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
+            .first();
+    },
+});
+
+export const setUnitPreference = mutation({
+    args: { units: v.union(v.literal("metric"), v.literal("imperial")) },
+    handler: async (ctx, args) => {
+        const clerkId = await requireCurrentUserId(ctx);
+        const existingUser = await ctx.db
+            .query("users")
+            .withIndex("by_clerk_id", (q) => q.eq("clerkId", clerkId))
+            .first();
+
+        if (!existingUser) return;
+
+        return await ctx.db.patch(existingUser._id, { units: args.units });
+    },
+});
@@ -0,0 +1,200 @@
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { getCurrentUserId, getOwnedPlan, requireCurrentUserId } from "./auth";
+
+async function getOwnedSession(ctx: QueryCtx, sessionId: Id<"workoutSessions">) {
+    const userId = await requireCurrentUserId(ctx);
+    const session = await ctx.db.get(sessionId);
+    if (!session || session.userId !== userId) {
+        throw new ConvexError("Workout session not found.");
+    }
+    return session;
+}
+
+function findPlanDay(plan: Doc<"plans">, day: string) {
+    return plan.workoutPlan.exercises.find((exerciseDay) => exerciseDay.day === day);
+}
+
+async function getScheduledWorkout(ctx: QueryCtx, sessionId: Id<"workoutSessions">) {
+    return await ctx.db
+        .query("scheduledWorkouts")
+        .withIndex("by_session_id", (q) => q.eq("sessionId", sessionId))
+        .first();
+}
+
+async function completeSession(ctx: MutationCtx, sessionId: Id<"workoutSessions">, notes?: string) {
+    await ctx.db.patch(sessionId, { status: "completed", finishedAt: Date.now(), notes });
+
+    const scheduled = await getScheduledWorkout(ctx, sessionId);
+    if (scheduled) {
+        await ctx.db.patch(scheduled._id, { status: "completed" });
+    }
+}
+
+// Closes a session the user walked away from without finishing. Its sets still
+// count, but its scheduled workout is unlinked rather than marked done, so it
+// can be started again or shows as missed.
+async function abandonSession(ctx: MutationCtx, sessionId: Id<"workoutSessions">) {
+    await ctx.db.patch(sessionId, { status: "completed", finishedAt: Date.now() });
+
+    const scheduled = await getScheduledWorkout(ctx, sessionId);
+    if (scheduled) {
+        await ctx.db.patch(scheduled._id, { sessionId: undefined });
+    }
+}
+
+// Mutation to start a session for one day of a plan. Resumes the user's
+// in-progress session for that day instead of opening a second one. Started
+// from the calendar, the scheduled workout is marked done when the session
+// finishes.
+export const startSession = mutation({
+    args: {
+        planId: v.id("plans"),
+        day: v.string(),
+        scheduledWorkoutId: v.optional(v.id("scheduledWorkouts")),
+    },
+    handler: async (ctx, args) => {
+        const plan = await getOwnedPlan(ctx, args.planId);
+        if (!findPlanDay(plan, args.day)) {
+            throw new ConvexError(`Plan has no workout for ${args.day}.`);
+        }
+        const scheduled = args.scheduledWorkoutId && (await ctx.db.get(args.scheduledWorkoutId));
+        if (args.scheduledWorkoutId && (!scheduled || scheduled.planId !== plan._id || scheduled.day !== args.day)) {
+            throw new ConvexError("Scheduled workout not found.");
+        }
+
+        const inProgress = await ctx.db
+            .query("workoutSessions")
+            .withIndex("by_user_status", (q) => q.eq("userId", plan.userId).eq("status", "in_progress"))
+            .collect();
+
+        const existing = inProgress.find((s) => s.planId === args.planId && s.day === args.day);
+        if (existing) return existing._id;
+
+        // only one workout runs at a time; close any other open session
+        // without counting it as done
+        for (const session of inProgress) {
+            await abandonSession(ctx, session._id);
+        }
+
+        const sessionId = await ctx.db.insert("workoutSessions", {
+            userId: plan.userId,
+            planId: args.planId,
+            day: args.day,
+            status: "in_progress",
+            startedAt: Date.now(),
+        });
+        if (scheduled) {
+            await ctx.db.patch(scheduled._id, { sessionId });
+        }
+        return sessionId;
+    },
+});
+
+// Mutation to record one performed set. Set numbers are assigned per routine
+// in the order sets are logged.
+export const logSet = mutation({
+    args: {
+        sessionId: v.id("workoutSessions"),
+        routineName: v.string(),
+        reps: v.number(),
+        weight: v.optional(v.number()),
+        weightUnit: v.optional(v.union(v.literal("kg"), v.literal("lb"))),
+        rpe: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const session = await getOwnedSession(ctx, args.sessionId);
+        if (session.status !== "in_progress") {
+            throw new ConvexError("This workout has already been finished.");
+        }
+
+        const plan = await ctx.db.get(session.planId);
+        const planDay = plan && findPlanDay(plan, session.day);
+        if (!planDay?.routines.some((r) => r.name === args.routineName)) {
+            throw new ConvexError(`'${args.routineName}' is not part of ${session.day}'s workout.`);
+        }
+
+        if (!Number.isInteger(args.reps) || args.reps < 0) {
+            throw new ConvexError("Reps must be a whole number of 0 or more.");
+        }
+        if (args.weight !== undefined && (!Number.isFinite(args.weight) || args.weight < 0)) {
+            throw new ConvexError("Weight must be 0 or more.");
+        }
+        if (args.rpe !== undefined && (!Number.isFinite(args.rpe) || args.rpe < 1 || args.rpe > 10)) {
+            throw new ConvexError("RPE must be between 1 and 10.");
+        }
+
+        const previousSets = await ctx.db
+            .query("setLogs")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .filter((q) => q.eq(q.field("routineName"), args.routineName))
+            .collect();
+
+        return await ctx.db.insert("setLogs", {
+            sessionId: args.sessionId,
+            userId: session.userId,
+            planId: session.planId,
+            day: session.day,
+            routineName: args.routineName,
+            // after the highest, so removing an earlier set doesn't reuse a number
+            setNumber: Math.max(0, ...previousSets.map((set) => set.setNumber)) + 1,
+            reps: args.reps,
+            weight: args.weight,
+            weightUnit: args.weight !== undefined ? args.weightUnit ?? "kg" : undefined,
+            rpe: args.rpe,
+        });
+    },
+});
+
+// Mutation to delete a mistakenly logged set
+export const removeSet = mutation({
+    args: { setLogId: v.id("setLogs") },
+    handler: async (ctx, args) => {
+        const setLog = await ctx.db.get(args.setLogId);
+        if (!setLog) {
+            throw new ConvexError("Set not found.");
+        }
+        const session = await getOwnedSession(ctx, setLog.sessionId);
+        if (session.status !== "in_progress") {
+            throw new ConvexError("This workout has already been finished.");
+        }
+        await ctx.db.delete(args.setLogId);
+    },
+});
+
+export const finishSession = mutation({
+    args: { sessionId: v.id("workoutSessions"), notes: v.optional(v.string()) },
+    handler: async (ctx, args) => {
+        const session = await getOwnedSession(ctx, args.sessionId);
+        if (session.status !== "in_progress") return;
+
+        await completeSession(ctx, args.sessionId, args.notes?.trim() || undefined);
+    },
+});
+
+// Query to get the signed-in user's in-progress session together with the
+// plan routines it walks through and the sets logged so far
+export const getActiveSession = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getCurrentUserId(ctx);
+        if (!userId) return null;
+
+        const session = await ctx.db
+            .query("workoutSessions")
+            .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "in_progress"))
+            .first();
+        if (!session) return null;
+
+        const plan = await ctx.db.get(session.planId);
+        const routines = (plan && findPlanDay(plan, session.day)?.routines) ?? [];
+
+        const sets = await ctx.db
+            .query("setLogs")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", session._id))
+            .collect();
+
+        return { session, routines, sets };
+    },
+});
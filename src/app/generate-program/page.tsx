@@ -2,10 +2,36 @@
 
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import OnboardingForm, { OnboardingAnswers } from "@/components/OnboardingForm";
 import { vapi } from "@/lib/vapi";
 import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
 import { useRouter } from "next/navigation";
 import { useEffect, useRef, useState } from "react";
+import { KeyboardIcon, MicIcon } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import { Doc } from "../../../convex/_generated/dataModel";
+import { DEFAULT_EQUIPMENT, describeEquipment } from "../../../convex/equipment";
+
+const JOB_STAGE_LABELS = {
+  workout_plan: "Designing your workout plan...",
+  diet_plan: "Building your diet plan...",
+  saving: "Saving your program...",
+};
+
+const describeJob = (job: Doc<"planJobs"> | null) => {
+  if (!job) return "Waiting for your plan request...";
+  switch (job.status) {
+    case "queued":
+      return "Queued for generation...";
+    case "running":
+      return job.stage ? JOB_STAGE_LABELS[job.stage] : "Generating your plan...";
+    case "succeeded":
+      return "Redirecting to profile...";
+    case "failed":
+      return "Plan generation failed";
+  }
+};
 
 const GenerateProgramPage = () => {
   const [callActive, setCallActive] = useState(false);
@@ -13,10 +39,24 @@ const GenerateProgramPage = () => {
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [messages, setMessages] = useState<any[]>([]);
   const [callEnded, setCallEnded] = useState(false);
+  const [mode, setMode] = useState<"voice" | "form">("voice");
+  const [formSubmitted, setFormSubmitted] = useState(false);
+  // latest job id seen when the call started; any newer job belongs to this call,
+  // so starting waits until the latest job has loaded
+  const [jobIdBeforeCall, setJobIdBeforeCall] = useState<string | null | undefined>(undefined);
 
   const { user } = useUser();
   const router = useRouter();
 
+  const latestJob = useQuery(api.planJobs.getLatestJob);
+  const fitnessProfile = useQuery(api.fitnessProfiles.getMyProfile);
+  const requestPlan = useMutation(api.planJobs.requestPlan);
+  const currentJob =
+    jobIdBeforeCall !== undefined && latestJob && latestJob._id !== jobIdBeforeCall
+      ? latestJob
+      : null;
+  const jobFailed = currentJob?.status === "failed";
+
   const messageContainerRef = useRef<HTMLDivElement>(null);
 
   // SOLUTION to get rid of "Meeting has ended" error
@@ -50,16 +90,16 @@ const GenerateProgramPage = () => {
     }
   }, [messages]);
 
-  // navigate user to profile page after the call ends
+  // navigate user to profile page once the call or form is done and the plan is saved
   useEffect(() => {
-    if (callEnded) {
+    if ((callEnded || formSubmitted) && currentJob?.status === "succeeded") {
       const redirectTimer = setTimeout(() => {
         router.push("/profile");
       }, 1500);
 
       return () => clearTimeout(redirectTimer);
     }
-  }, [callEnded, router]);
+  }, [callEnded, formSubmitted, currentJob?.status, router]);
 
   // setup event listeners for vapi
   useEffect(() => {
@@ -128,6 +168,7 @@ const GenerateProgramPage = () => {
         setConnecting(true);
         setMessages([]);
         setCallEnded(false);
+        setJobIdBeforeCall(latestJob?._id ?? null);
 
         const fullName = user?.firstName
           ? `${user.firstName} ${user.lastName || ""}`.trim()
@@ -141,6 +182,19 @@ const GenerateProgramPage = () => {
             variableValues: {
               full_name: fullName,
               user_id: user?.id,
+              // saved answers let the agent confirm rather than re-ask
+              has_profile: Boolean(fitnessProfile),
+              ...(fitnessProfile && {
+                age: fitnessProfile.age,
+                height: fitnessProfile.height,
+                weight: fitnessProfile.weight,
+                injuries: fitnessProfile.injuries,
+                workout_days: fitnessProfile.workoutDays.join(", "),
+                fitness_goal: fitnessProfile.fitnessGoal,
+                fitness_level: fitnessProfile.fitnessLevel,
+                dietary_restrictions: fitnessProfile.dietaryRestrictions.join(", ") || "none",
+                equipment: describeEquipment(fitnessProfile.equipment ?? DEFAULT_EQUIPMENT),
+              }),
             },
           }
         );
@@ -150,7 +204,12 @@ const GenerateProgramPage = () => {
       }
     }
   };
-  
+
+  const submitForm = async (answers: OnboardingAnswers) => {
+    setJobIdBeforeCall(latestJob?._id ?? null);
+    await requestPlan(answers);
+    setFormSubmitted(true);
+  };
 
   return (
     <div className="flex flex-col min-h-screen text-foreground overflow-hidden  pb-6 pt-24">
@@ -162,162 +221,214 @@ const GenerateProgramPage = () => {
             <span className="text-primary uppercase">Fitness Program</span>
           </h1>
           <p className="text-muted-foreground mt-2">
-            Have a voice conversation with our AI assistant to create your personalized plan
+            {mode === "voice"
+              ? "Have a voice conversation with our AI assistant to create your personalized plan"
+              : "Answer a few questions to create your personalized plan"}
           </p>
         </div>
 
-        {/* VIDEO CALL AREA */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-          {/* AI ASSISTANT CARD */}
-          <Card className="bg-card/90 backdrop-blur-sm border border-border overflow-hidden relative">
-            <div className="aspect-video flex flex-col items-center justify-center p-6 relative">
-              {/* AI VOICE ANIMATION */}
-              <div
-                className={`absolute inset-0 ${isSpeaking ? "opacity-30" : "opacity-0"
-                  } transition-opacity duration-300`}
-              >
-                {/* Voice wave animation when speaking */}
-                <div className="absolute left-0 right-0 top-1/2 -translate-y-1/2 flex justify-center items-center h-20">
-                  {[...Array(5)].map((_, i) => (
-                    <div
-                      key={i}
-                      className={`mx-1 h-16 w-1 bg-primary rounded-full ${isSpeaking ? "animate-sound-wave" : ""
-                        }`}
-                      style={{
-                        animationDelay: `${i * 0.1}s`,
-                        height: isSpeaking ? `${Math.random() * 50 + 20}%` : "5%",
-                      }}
-                    />
-                  ))}
-                </div>
-              </div>
+        {/* MODE SWITCH */}
+        <div className="flex justify-center gap-2 mb-8">
+          {([
+            ["voice", "Voice Call", MicIcon],
+            ["form", "Text Form", KeyboardIcon],
+          ] as const).map(([value, label, Icon]) => (
+            <Button
+              key={value}
+              disabled={callActive || connecting || formSubmitted}
+              onClick={() => setMode(value)}
+              className={`text-foreground border hover:text-white ${mode === value
+                  ? "bg-primary/20 text-primary border-primary"
+                  : "bg-transparent border-border hover:border-primary/50"
+                }`}
+            >
+              <Icon />
+              {label}
+            </Button>
+          ))}
+        </div>
 
-              {/* AI IMAGE */}
-              <div className="relative size-32 mb-4">
+        {mode === "form" && fitnessProfile !== undefined && latestJob !== undefined && (
+          <div className="max-w-2xl mx-auto">
+            {formSubmitted ? (
+              <Card className="bg-card/90 backdrop-blur-sm border border-border p-6 text-center space-y-4">
+                <p className="text-foreground">
+                  {currentJob?.status === "succeeded"
+                    ? "Your fitness program has been created! Redirecting to your profile..."
+                    : jobFailed
+                      ? `We couldn't create your program: ${currentJob?.error}`
+                      : describeJob(currentJob)}
+                </p>
+                {jobFailed && <Button onClick={() => setFormSubmitted(false)}>Try Again</Button>}
+              </Card>
+            ) : (
+              <OnboardingForm profile={fitnessProfile} onSubmit={submitForm} />
+            )}
+          </div>
+        )}
+
+        {mode === "voice" && (
+          <>
+          {/* VIDEO CALL AREA */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+            {/* AI ASSISTANT CARD */}
+            <Card className="bg-card/90 backdrop-blur-sm border border-border overflow-hidden relative">
+              <div className="aspect-video flex flex-col items-center justify-center p-6 relative">
+                {/* AI VOICE ANIMATION */}
                 <div
-                  className={`absolute inset-0 bg-primary opacity-10 rounded-full blur-lg ${isSpeaking ? "animate-pulse" : ""
-                    }`}
-                />
+                  className={`absolute inset-0 ${isSpeaking ? "opacity-30" : "opacity-0"
+                    } transition-opacity duration-300`}
+                >
+                  {/* Voice wave animation when speaking */}
+                  <div className="absolute left-0 right-0 top-1/2 -translate-y-1/2 flex justify-center items-center h-20">
+                    {[...Array(5)].map((_, i) => (
+                      <div
+                        key={i}
+                        className={`mx-1 h-16 w-1 bg-primary rounded-full ${isSpeaking ? "animate-sound-wave" : ""
+                          }`}
+                        style={{
+                          animationDelay: `${i * 0.1}s`,
+                          height: isSpeaking ? `${Math.random() * 50 + 20}%` : "5%",
+                        }}
+                      />
+                    ))}
+                  </div>
+                </div>
 
-                <div className="relative w-full h-full rounded-full bg-card flex items-center justify-center border border-border overflow-hidden">
-                  <div className="absolute inset-0 bg-gradient-to-b from-primary/10 to-secondary/10"></div>
-                  <img
-                    src="/ai-avatar.png"
-                    alt="AI Assistant"
-                    className="w-full h-full object-cover"
+                {/* AI IMAGE */}
+                <div className="relative size-32 mb-4">
+                  <div
+                    className={`absolute inset-0 bg-primary opacity-10 rounded-full blur-lg ${isSpeaking ? "animate-pulse" : ""
+                      }`}
                   />
+
+                  <div className="relative w-full h-full rounded-full bg-card flex items-center justify-center border border-border overflow-hidden">
+                    <div className="absolute inset-0 bg-gradient-to-b from-primary/10 to-secondary/10"></div>
+                    <img
+                      src="/ai-avatar.png"
+                      alt="AI Assistant"
+                      className="w-full h-full object-cover"
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <h2 className="text-xl font-bold text-foreground">CodeFlex AI</h2>
-              <p className="text-sm text-muted-foreground mt-1">Fitness & Diet Coach</p>
+                <h2 className="text-xl font-bold text-foreground">CodeFlex AI</h2>
+                <p className="text-sm text-muted-foreground mt-1">Fitness & Diet Coach</p>
 
-              {/* SPEAKING INDICATOR */}
+                {/* SPEAKING INDICATOR */}
 
-              <div
-                className={`mt-4 flex items-center gap-2 px-3 py-1 rounded-full bg-card border border-border ${isSpeaking ? "border-primary" : ""
-                  }`}
-              >
                 <div
-                  className={`w-2 h-2 rounded-full ${isSpeaking ? "bg-primary animate-pulse" : "bg-muted"
+                  className={`mt-4 flex items-center gap-2 px-3 py-1 rounded-full bg-card border border-border ${isSpeaking ? "border-primary" : ""
                     }`}
-                />
-
-                <span className="text-xs text-muted-foreground">
-                  {isSpeaking
-                    ? "Speaking..."
-                    : callActive
-                      ? "Listening..."
-                      : callEnded
-                        ? "Redirecting to profile..."
-                        : "Waiting..."}
-                </span>
-              </div>
-            </div>
-          </Card>
-
-          {/* USER CARD */}
-          <Card className={`bg-card/90 backdrop-blur-sm border overflow-hidden relative`}>
-            <div className="aspect-video flex flex-col items-center justify-center p-6 relative">
-              {/* User Image */}
-              <div className="relative size-32 mb-4">
-                <img
-                  src={user?.imageUrl}
-                  alt="User"
-                  // ADD THIS "size-full" class to make it rounded on all images
-                  className="size-full object-cover rounded-full"
-                />
+                >
+                  <div
+                    className={`w-2 h-2 rounded-full ${isSpeaking ? "bg-primary animate-pulse" : "bg-muted"
+                      }`}
+                  />
+
+                  <span className="text-xs text-muted-foreground">
+                    {isSpeaking
+                      ? "Speaking..."
+                      : callActive
+                        ? "Listening..."
+                        : callEnded
+                          ? describeJob(currentJob)
+                          : "Waiting..."}
+                  </span>
+                </div>
               </div>
+            </Card>
+
+            {/* USER CARD */}
+            <Card className={`bg-card/90 backdrop-blur-sm border overflow-hidden relative`}>
+              <div className="aspect-video flex flex-col items-center justify-center p-6 relative">
+                {/* User Image */}
+                <div className="relative size-32 mb-4">
+                  <img
+                    src={user?.imageUrl}
+                    alt="User"
+                    // ADD THIS "size-full" class to make it rounded on all images
+                    className="size-full object-cover rounded-full"
+                  />
+                </div>
 
-              <h2 className="text-xl font-bold text-foreground">You</h2>
-              <p className="text-sm text-muted-foreground mt-1">
-                {user ? (user.firstName + " " + (user.lastName || "")).trim() : "Guest"}
-              </p>
+                <h2 className="text-xl font-bold text-foreground">You</h2>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {user ? (user.firstName + " " + (user.lastName || "")).trim() : "Guest"}
+                </p>
 
-              {/* User Ready Text */}
-              <div className={`mt-4 flex items-center gap-2 px-3 py-1 rounded-full bg-card border`}>
-                <div className={`w-2 h-2 rounded-full bg-muted`} />
-                <span className="text-xs text-muted-foreground">Ready</span>
+                {/* User Ready Text */}
+                <div className={`mt-4 flex items-center gap-2 px-3 py-1 rounded-full bg-card border`}>
+                  <div className={`w-2 h-2 rounded-full bg-muted`} />
+                  <span className="text-xs text-muted-foreground">Ready</span>
+                </div>
               </div>
-            </div>
-          </Card>
-        </div>
+            </Card>
+          </div>
 
-        {/* MESSAGE COINTER  */}
-        {messages.length > 0 && (
-          <div
-            ref={messageContainerRef}
-            className="w-full bg-card/90 backdrop-blur-sm border border-border rounded-xl p-4 mb-8 h-64 overflow-y-auto transition-all duration-300 scroll-smooth"
-          >
-            <div className="space-y-3">
-              {messages.map((msg, index) => (
-                <div key={index} className="message-item animate-fadeIn">
-                  <div className="font-semibold text-xs text-muted-foreground mb-1">
-                    {msg.role === "assistant" ? "CodeFlex AI" : "You"}:
+          {/* MESSAGE COINTER  */}
+          {messages.length > 0 && (
+            <div
+              ref={messageContainerRef}
+              className="w-full bg-card/90 backdrop-blur-sm border border-border rounded-xl p-4 mb-8 h-64 overflow-y-auto transition-all duration-300 scroll-smooth"
+            >
+              <div className="space-y-3">
+                {messages.map((msg, index) => (
+                  <div key={index} className="message-item animate-fadeIn">
+                    <div className="font-semibold text-xs text-muted-foreground mb-1">
+                      {msg.role === "assistant" ? "CodeFlex AI" : "You"}:
+                    </div>
+                    <p className="text-foreground">{msg.content}</p>
                   </div>
-                  <p className="text-foreground">{msg.content}</p>
-                </div>
-              ))}
-
-              {callEnded && (
-                <div className="message-item animate-fadeIn">
-                  <div className="font-semibold text-xs text-primary mb-1">System:</div>
-                  <p className="text-foreground">
-                    Your fitness program has been created! Redirecting to your profile...
-                  </p>
-                </div>
-              )}
+                ))}
+
+                {callEnded && (
+                  <div className="message-item animate-fadeIn">
+                    <div className="font-semibold text-xs text-primary mb-1">System:</div>
+                    <p className="text-foreground">
+                      {currentJob?.status === "succeeded"
+                        ? "Your fitness program has been created! Redirecting to your profile..."
+                        : jobFailed
+                          ? `We couldn't create your program: ${currentJob?.error}. Start a new call to try again.`
+                          : describeJob(currentJob)}
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
+          )}
+
+          {/* CALL CONTROLS */}
+          <div className="w-full flex justify-center gap-4">
+            <Button
+              className={`w-40 text-xl rounded-3xl ${callActive
+                  ? "bg-destructive hover:bg-destructive/90"
+                  : callEnded && !jobFailed
+                    ? "bg-green-600 hover:bg-green-700"
+                    : "bg-primary hover:bg-primary/90"
+                } text-white relative`}
+              onClick={toggleCall}
+              disabled={connecting || latestJob === undefined || (callEnded && !jobFailed)}
+            >
+              {connecting && (
+                <span className="absolute inset-0 rounded-full animate-ping bg-primary/50 opacity-75"></span>
+              )}
+
+              <span>
+                {callActive
+                  ? "End Call"
+                  : connecting
+                    ? "Connecting..."
+                    : callEnded
+                      ? jobFailed
+                        ? "Try Again"
+                        : "View Profile"
+                      : "Start Call"}
+              </span>
+            </Button>
           </div>
+          </>
         )}
-
-        {/* CALL CONTROLS */}
-        <div className="w-full flex justify-center gap-4">
-          <Button
-            className={`w-40 text-xl rounded-3xl ${callActive
-                ? "bg-destructive hover:bg-destructive/90"
-                : callEnded
-                  ? "bg-green-600 hover:bg-green-700"
-                  : "bg-primary hover:bg-primary/90"
-              } text-white relative`}
-            onClick={toggleCall}
-            disabled={connecting || callEnded}
-          >
-            {connecting && (
-              <span className="absolute inset-0 rounded-full animate-ping bg-primary/50 opacity-75"></span>
-            )}
-
-            <span>
-              {callActive
-                ? "End Call"
-                : connecting
-                  ? "Connecting..."
-                  : callEnded
-                    ? "View Profile"
-                    : "Start Call"}
-            </span>
-          </Button>
-        </div>
       </div>
     </div>
   );
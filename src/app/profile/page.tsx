@@ -11,26 +11,65 @@ import NoFitnessPlan from "@/components/NoFitnessPlan"
 import CornerElements from "@/components/CornerElements"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { AppleIcon, CalendarIcon, DumbbellIcon } from "lucide-react"
+import { AlertTriangleIcon, AppleIcon, CalendarIcon, DumbbellIcon, HistoryIcon, PencilIcon, TrendingUpIcon } from "lucide-react"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import WorkoutPlanEditor from "@/components/WorkoutPlanEditor"
+import DietPlanEditor from "@/components/DietPlanEditor"
+import DietPlanView from "@/components/DietPlanView"
+import PlanHistory from "@/components/PlanHistory"
+import TodaysWorkout from "@/components/TodaysWorkout"
+import WorkoutCalendar from "@/components/WorkoutCalendar"
+import FoodDiary from "@/components/FoodDiary"
+import ProgressAnalytics from "@/components/ProgressAnalytics"
+import BodyMetrics from "@/components/BodyMetrics"
+import FitnessProfileSettings from "@/components/FitnessProfileSettings"
+import RoutineTargets from "@/components/RoutineTargets"
+import ProgramWeeks from "@/components/ProgramWeeks"
+import AdjustmentLog, { DECISION_STYLES } from "@/components/AdjustmentLog"
+import { findContraindications, resolveInjuryRules } from "../../../convex/injuryRules"
+import { describeCircuitExercise, formatSeconds, normalizeRoutine } from "../../../convex/routines"
+import { currentProgramWeek, routineForWeek, weeksSinceStart } from "../../../convex/periodization"
+import { applyAdjustment, latestAdjustment } from "../../../convex/progression"
 
 
 const ProfilePage = () => {
 
 
   const { user } = useUser()
-  const userId = user?.id as string
 
-  const allPlans = useQuery(api.plans.getUserPlans, { userId })
+  const allPlans = useQuery(api.plans.getUserPlans)
 
   const [selectedPlanId, setSelectedPlanId] = useState<null | string>(null)
+  const [editingSection, setEditingSection] = useState<null | "workout" | "diet">(null)
+  const [showHistory, setShowHistory] = useState(false)
+  // null follows the program's current week
+  const [viewedWeek, setViewedWeek] = useState<null | number>(null)
 
   const activePlan = allPlans?.find(plan => plan.isActive)
 
   const currentPlan = selectedPlanId ? allPlans?.find(plan => plan._id === selectedPlanId) : activePlan
+
+  const exerciseInfo = useQuery(api.exercises.resolvePlanExercises, currentPlan ? { planId: currentPlan._id } : "skip")
+
+  // checked against the injuries on file now, so older plans and manual edits are covered too
+  const fitnessProfile = useQuery(api.fitnessProfiles.getMyProfile)
+  const contraindications = currentPlan && fitnessProfile
+    ? findContraindications(currentPlan.workoutPlan.exercises, resolveInjuryRules(fitnessProfile.injuries))
+    : []
+
+  const program = currentPlan?.workoutPlan.program
+  const thisWeek = program && currentProgramWeek(program, Date.now())
+  const shownWeekIndex = viewedWeek ?? thisWeek?.index ?? 0
+  const shownWeek = program?.weeks[shownWeekIndex]
+  // weeks counted from the plan's start, which is how adjustments are keyed
+  const shownAbsoluteWeek = thisWeek
+    ? thisWeek.week - thisWeek.index + shownWeekIndex
+    : currentPlan ? weeksSinceStart(currentPlan._creationTime, Date.now()) : 0
+  const adjustments = useQuery(api.routineAdjustments.getPlanAdjustments, currentPlan ? { planId: currentPlan._id } : "skip")
   return (
     <section className="relative z-10 pt-12 pb-32 flex-grow container mx-auto px-4">
       <ProfileHeader user={user} />
+      <FitnessProfileSettings />
 
       {allPlans && allPlans?.length > 0 ? (
         <div className="space-y-8">
@@ -50,7 +89,11 @@ const ProfilePage = () => {
 
             <div className="flex flex-wrap gap-2">
               {allPlans.map(plan => (
-                <Button key={plan._id} onClick={() => setSelectedPlanId(plan._id)}
+                <Button key={plan._id} onClick={() => {
+                  setSelectedPlanId(plan._id)
+                  setEditingSection(null)
+                  setViewedWeek(null)
+                }}
                   className={`text-foreground border hover:text-white ${selectedPlanId === plan._id
                       ? "bg-primary/20 text-primary border-primary"
                       : "bg-transparent border-border hover:border-primary/50"
@@ -67,6 +110,10 @@ const ProfilePage = () => {
             </div>
           </div>
 
+          {activePlan && <TodaysWorkout plan={activePlan} />}
+          {activePlan && <WorkoutCalendar plan={activePlan} />}
+          {activePlan && <FoodDiary plan={activePlan} />}
+
           {/*PLAN DETAILS*/}
 
           {currentPlan && (
@@ -78,13 +125,23 @@ const ProfilePage = () => {
                 <h3 className="text-lg font-bold">
                   PLAN: <span className="text-primary">{currentPlan.name}</span>
                 </h3>
+                <Button variant="outline" size="sm" className="ml-auto" onClick={() => setShowHistory(!showHistory)}>
+                  <HistoryIcon />
+                  {showHistory ? "Hide History" : "History"}
+                </Button>
               </div>
 
+              {showHistory && (
+                <div className="mb-6">
+                  <PlanHistory key={currentPlan._id} plan={currentPlan} />
+                </div>
+              )}
+
               <Tabs defaultValue="workout" className="w-full">
 
-                <TabsList className="mb-6 w-full grid grid-cols-2 bg-cyber-terminal-bg border">
+                <TabsList className="mb-6 w-full grid grid-cols-3 bg-cyber-terminal-bg border">
 
-                  <TabsTrigger value=" workout" className="data-[state=active]:bg-primary/20 data-[state=active]:text-primary">
+                  <TabsTrigger value="workout" className="data-[state=active]:bg-primary/20 data-[state=active]:text-primary">
                     
                     <DumbbellIcon className="mr-2 size-4" />
                     Workout Plan
@@ -98,116 +155,167 @@ const ProfilePage = () => {
                     <AppleIcon className="mr-2 h-4 w-4" />
                     Diet Plan
                   </TabsTrigger>
+
+                  <TabsTrigger
+                    value="progress"
+                    className="data-[state=active]:bg-primary/20 data-[state=active]:text-primary"
+                  >
+                    <TrendingUpIcon className="mr-2 h-4 w-4" />
+                    Progress
+                  </TabsTrigger>
                    
                 </TabsList>
 
                 <TabsContent value="workout">
-                  <div className="space-y-4">
+                  {editingSection === "workout" ? (
+                    <WorkoutPlanEditor plan={currentPlan} onDone={() => setEditingSection(null)} />
+                  ) : (
+                    <div className="space-y-4">
 
-                    <div className="flex items-center gap-2 mb-4">
-                      <CalendarIcon className="h-4 w-4 text-primary" />
-                      <span className="font-mono text-sm text-muted-foreground">
-                        SCHEDULE: {currentPlan.workoutPlan.schedule.join(", ")}
-                      </span>
-                    </div>
-                    <Accordion type="multiple" className="space-y-4">
-                      {currentPlan.workoutPlan.exercises.map((exerciseDay, index) => (
-                        <AccordionItem key={index} value={exerciseDay.day}
-                          className="border rounded-lg overflow-hidden"
-                        >
-                          <AccordionTrigger className="px-4 py-3 hover:no-underline hover:bg-primary/10 font-mono">
-                            <div className="flex justify-between w-full items-center">
-                              <span className="text-primary">{exerciseDay.day}</span>
-                              <div className="text-xs text-muted-foreground">
-                                {exerciseDay.routines.length} EXERCISES
+                      <div className="flex items-center gap-2 mb-4">
+                        <CalendarIcon className="h-4 w-4 text-primary" />
+                        <span className="font-mono text-sm text-muted-foreground">
+                          SCHEDULE: {currentPlan.workoutPlan.schedule.join(", ")}
+                        </span>
+                        <Button variant="outline" size="sm" className="ml-auto" onClick={() => setEditingSection("workout")}>
+                          <PencilIcon />
+                          Edit
+                        </Button>
+                      </div>
+                      {program && thisWeek && (
+                        <ProgramWeeks program={program} current={thisWeek} selected={shownWeekIndex}
+                          onSelect={setViewedWeek} />
+                      )}
+                      <Accordion type="multiple" className="space-y-4">
+                        {currentPlan.workoutPlan.exercises.map((exerciseDay, index) => (
+                          <AccordionItem key={index} value={exerciseDay.day}
+                            className="border rounded-lg overflow-hidden"
+                          >
+                            <AccordionTrigger className="px-4 py-3 hover:no-underline hover:bg-primary/10 font-mono">
+                              <div className="flex justify-between w-full items-center">
+                                <span className="text-primary">{exerciseDay.day}</span>
+                                <div className="text-xs text-muted-foreground">
+                                  {exerciseDay.routines.length} EXERCISES
+                                </div>
                               </div>
-                            </div>
-
-                          </AccordionTrigger>
-                          <AccordionContent className="pb-4 px-4 ">
-
-                            <div className="space-y-3 mt-2 ">
-                              {exerciseDay.routines.map((routine, routineIndex) => (
-                                <div
-                                  key={routineIndex}
-                                  className="border border-border rounded p-3 bg-background/50"
-                                >
-                                  <div className="flex justify-between items-start mb-2">
-                                    <h4 className="font-semibold text-foreground">
-                                      {routine.name}
-                                    </h4>
-                                    <div className="flex items-center gap-2">
-                                      <div className="px-2 py-1 rounded bg-primary/20 text-primary text-xs font-mono">
-                                        {routine.sets} SETS
-                                      </div>
-                                      <div className="px-2 py-1 rounded bg-secondary/20 text-secondary text-xs font-mono">
-                                        {routine.reps} REPS
-                                      </div>
+
+                            </AccordionTrigger>
+                            <AccordionContent className="pb-4 px-4 ">
+
+                              <div className="space-y-3 mt-2 ">
+                                {exerciseDay.routines.map((stored, routineIndex) => {
+                                  const adjustment = latestAdjustment(adjustments ?? [], exerciseDay.day, stored.name, shownAbsoluteWeek)
+                                  const routine = applyAdjustment(
+                                    shownWeek ? routineForWeek(normalizeRoutine(stored), shownWeek) : normalizeRoutine(stored),
+                                    adjustment
+                                  )
+                                  // the weight and reason only describe the week they were set for
+                                  const weekAdjustment = adjustment?.week === shownAbsoluteWeek ? adjustment : undefined
+                                  const warning = contraindications.find(c =>
+                                    c.dayIndex === index && c.routineIndex === routineIndex)
+                                  const info = exerciseInfo?.[index]?.[routineIndex]
+                                  return (
+                                  <div
+                                    key={routineIndex}
+                                    className="border border-border rounded p-3 bg-background/50"
+                                  >
+                                    <div className="flex justify-between items-start mb-2">
+                                      <h4 className="font-semibold text-foreground">
+                                        {routine.name}
+                                        {warning && (
+                                          <span className="ml-2 inline-flex items-center gap-1 align-middle rounded border border-amber-400/50 bg-amber-400/10 px-2 py-0.5 text-xs font-mono text-amber-400">
+                                            <AlertTriangleIcon className="size-3" />
+                                            {warning.rule.label.toUpperCase()} INJURY
+                                          </span>
+                                        )}
+                                      </h4>
+                                      <RoutineTargets routine={routine} loadPercent={shownWeek?.loadPercent}
+                                        targetWeight={weekAdjustment?.targetWeight !== undefined
+                                          ? `${weekAdjustment.targetWeight} ${weekAdjustment.weightUnit}`
+                                          : undefined} />
                                     </div>
+                                    {routine.type === "circuit" && (
+                                      <div className="mt-1 space-y-1">
+                                        <ol className="space-y-1 list-decimal list-inside text-sm text-foreground">
+                                          {routine.exercises.map((exercise, exerciseIndex) => (
+                                            <li key={exerciseIndex}>{describeCircuitExercise(exercise)}</li>
+                                          ))}
+                                        </ol>
+                                        {routine.exerciseRestSeconds !== undefined && (
+                                          <p className="text-xs font-mono text-muted-foreground">
+                                            {formatSeconds(routine.exerciseRestSeconds).toUpperCase()} REST BETWEEN EXERCISES
+                                          </p>
+                                        )}
+                                      </div>
+                                    )}
+                                    {routine.description && (
+                                      <p className="text-sm text-muted-foreground mt-1">
+                                        {routine.description}
+                                      </p>
+                                    )}
+                                    {info && (
+                                      <details className="mt-2">
+                                        <summary className="cursor-pointer list-none text-xs font-mono text-muted-foreground hover:text-primary">
+                                          HOW TO · {[...info.primaryMuscles, ...info.secondaryMuscles].join(", ").toUpperCase()}
+                                          {info.equipment.length > 0 && ` · ${info.equipment.join(", ").toUpperCase()}`}
+                                        </summary>
+                                        <ol className="mt-2 space-y-1 list-decimal list-inside text-sm text-muted-foreground">
+                                          {info.cues.map((cue, cueIndex) => (
+                                            <li key={cueIndex}>{cue}</li>
+                                          ))}
+                                        </ol>
+                                      </details>
+                                    )}
+                                    {weekAdjustment && (
+                                      <p className="text-xs font-mono mt-1">
+                                        <span className={DECISION_STYLES[weekAdjustment.decision].className}>
+                                          {DECISION_STYLES[weekAdjustment.decision].label}:
+                                        </span>{" "}
+                                        <span className="text-muted-foreground">{weekAdjustment.reason}</span>
+                                      </p>
+                                    )}
+                                    {warning && (
+                                      <p className="text-xs text-amber-400 font-mono mt-1">
+                                        {routine.type === "circuit" && `${warning.routine}: `}
+                                        Not advised with your {warning.rule.label} injury: {warning.reason}.
+                                        {warning.substitute && ` Consider ${warning.substitute}.`}
+                                      </p>
+                                    )}
                                   </div>
-                                  {routine.description && (
-                                    <p className="text-sm text-muted-foreground mt-1">
-                                      {routine.description}
-                                    </p>
-                                  )}
-                                </div>
-                              ))}
+                                  )
+                                })}
 
-                            </div>
+                              </div>
 
-                          </AccordionContent>
+                            </AccordionContent>
 
 
-                        </AccordionItem>
-                      ))}
+                          </AccordionItem>
+                        ))}
 
-                    </Accordion>
+                      </Accordion>
 
-                    
-                  </div>
+                      <div className="h-px w-full bg-border"></div>
+                      <h3 className="font-mono text-sm text-muted-foreground">ADJUSTMENTS</h3>
+                      <AdjustmentLog plan={currentPlan} />
+                    </div>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="diet">
-                  <div className="space-y-4">
-                    <div className="flex justify-between items-center mb-4">
-                      <span className="font-mono text-sm text-muted-foreground">
-                        DAILY CALORIE TARGET
-                      </span>
-                      <div className="font-mono text-xl text-primary">
-                        {currentPlan.dietPlan.dailyCalories} KCAL
-                      </div>
-                    </div>
-
-                    <div className="h-px w-full bg-border my-4"></div>
+                  {editingSection === "diet" ? (
+                    <DietPlanEditor plan={currentPlan} onDone={() => setEditingSection(null)} />
+                  ) : (
+                    <DietPlanView plan={currentPlan} onEdit={() => setEditingSection("diet")} />
+                  )}
+                </TabsContent>
 
-                    <div className="space-y-4">
-                      {currentPlan.dietPlan.meals.map((meal, index) => (
-                        <div
-                          key={index}
-                          className="border border-border rounded-lg overflow-hidden p-4"
-                        >
-                          <div className="flex items-center gap-2 mb-3">
-                            <div className="w-2 h-2 rounded-full bg-primary"></div>
-                            <h4 className="font-mono text-primary">{meal.name}</h4>
-                          </div>
-                          <ul className="space-y-2">
-                            {meal.foods.map((food, foodIndex) => (
-                              <li
-                                key={foodIndex}
-                                className="flex items-center gap-2 text-sm text-muted-foreground"
-                              >
-                                <span className="text-xs text-primary font-mono">
-                                  {String(foodIndex + 1).padStart(2, "0")}
-                                </span>
-                                {food}
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                      ))}
-                    </div>
+                <TabsContent value="progress">
+                  <div className="space-y-8">
+                    <ProgressAnalytics />
+                    <div className="h-px w-full bg-border"></div>
+                    <BodyMetrics />
                   </div>
-
                 </TabsContent>
 
               </Tabs>
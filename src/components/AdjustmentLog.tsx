@@ -0,0 +1,57 @@
+"use client"
+
+import { useQuery } from "convex/react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+
+export const DECISION_STYLES = {
+  bump: { label: "BUMP", className: "text-green-500" },
+  hold: { label: "HOLD", className: "text-muted-foreground" },
+  deload: { label: "DELOAD", className: "text-amber-400" },
+}
+
+// the weekly auto-regulation changelog, newest week first
+const AdjustmentLog = ({ plan }: { plan: Doc<"plans"> }) => {
+  const adjustments = useQuery(api.routineAdjustments.getPlanAdjustments, { planId: plan._id })
+
+  if (!adjustments) return null
+
+  if (adjustments.length === 0) {
+    return (
+      <p className="font-mono text-sm text-muted-foreground">
+        No adjustments yet. After each week, logged sets are compared with their targets and next week&apos;s are
+        adjusted here.
+      </p>
+    )
+  }
+
+  const weeks = [...new Set(adjustments.map((adjustment) => adjustment.week))]
+
+  return (
+    <div className="space-y-4">
+      {weeks.map((week) => (
+        <div key={week} className="space-y-2">
+          <h4 className="font-mono text-sm text-primary">WEEK {week + 1}</h4>
+          <ul className="space-y-2">
+            {adjustments.filter((adjustment) => adjustment.week === week).map((adjustment) => (
+              <li key={adjustment._id} className="text-sm">
+                <div className="font-mono">
+                  <span className={DECISION_STYLES[adjustment.decision].className}>
+                    [{DECISION_STYLES[adjustment.decision].label}]
+                  </span>{" "}
+                  <span className="text-foreground">{adjustment.routineName}</span>
+                  <span className="text-muted-foreground">
+                    {" "}· {adjustment.day}
+                    {adjustment.targetWeight !== undefined && ` · ${adjustment.targetWeight} ${adjustment.weightUnit}`}
+                  </span>
+                </div>
+                <p className="text-muted-foreground">{adjustment.reason}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+export default AdjustmentLog
@@ -0,0 +1,138 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { cmToIn, kgToLb, UnitSystem } from "../../convex/units"
+import LineChart from "./LineChart"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+type MetricKey = "weight" | "bodyFat" | "waist"
+
+const METRICS: Record<
+  MetricKey,
+  {
+    label: string
+    read: (entry: Doc<"bodyMetrics">) => number | undefined
+    toDisplay: (value: number, units: UnitSystem) => number
+    unit: (units: UnitSystem) => string
+  }
+> = {
+  weight: {
+    label: "WEIGHT",
+    read: (entry) => entry.weightKg,
+    toDisplay: (kg, units) => (units === "imperial" ? kgToLb(kg) : kg),
+    unit: (units) => (units === "imperial" ? "lb" : "kg"),
+  },
+  bodyFat: {
+    label: "BODY FAT",
+    read: (entry) => entry.bodyFatPercent,
+    toDisplay: (percent) => percent,
+    unit: () => "%",
+  },
+  waist: {
+    label: "WAIST",
+    read: (entry) => entry.waistCm,
+    toDisplay: (cm, units) => (units === "imperial" ? cmToIn(cm) : cm),
+    unit: (units) => (units === "imperial" ? "in" : "cm"),
+  },
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+
+const BodyMetrics = () => {
+  const currentUser = useQuery(api.users.getCurrentUser)
+  const entries = useQuery(api.bodyMetrics.getBodyMetrics)
+  const setUnitPreference = useMutation(api.users.setUnitPreference)
+  const logBodyMetrics = useMutation(api.bodyMetrics.logBodyMetrics)
+
+  const [selectedMetric, setSelectedMetric] = useState<MetricKey>("weight")
+  const [form, setForm] = useState<Record<MetricKey, string>>({ weight: "", bodyFat: "", waist: "" })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!entries || currentUser === undefined) return null
+
+  const units: UnitSystem = currentUser?.units ?? "metric"
+  const metric = METRICS[selectedMetric]
+  const points = entries.flatMap((entry) => {
+    const value = metric.read(entry)
+    return value === undefined ? [] : [{ x: entry.recordedAt, y: metric.toDisplay(value, units) }]
+  })
+
+  const handleLog = async () => {
+    const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value))
+    setSaving(true)
+    setError(null)
+    try {
+      await logBodyMetrics({
+        units,
+        weight: toNumber(form.weight),
+        bodyFatPercent: toNumber(form.bodyFat),
+        waist: toNumber(form.waist),
+      })
+      setForm({ weight: "", bodyFat: "", waist: "" })
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Failed to save measurement.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-mono text-sm text-muted-foreground">BODY METRICS</h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedMetric}
+            onChange={(e) => setSelectedMetric(e.target.value as MetricKey)}
+            className="bg-background border border-border rounded px-2 py-1 font-mono text-sm"
+          >
+            {(Object.keys(METRICS) as MetricKey[]).map((key) => (
+              <option key={key} value={key}>{METRICS[key].label}</option>
+            ))}
+          </select>
+          <select
+            value={units}
+            onChange={(e) => setUnitPreference({ units: e.target.value as UnitSystem })}
+            className="bg-background border border-border rounded px-2 py-1 font-mono text-sm"
+          >
+            <option value="metric">METRIC</option>
+            <option value="imperial">IMPERIAL</option>
+          </select>
+        </div>
+      </div>
+
+      {points.length > 0 ? (
+        <LineChart
+          points={points}
+          formatX={formatDate}
+          formatY={(y) => `${y.toFixed(1)} ${metric.unit(units)}`}
+        />
+      ) : (
+        <p className="text-sm text-muted-foreground">No {metric.label.toLowerCase()} entries yet.</p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        {(Object.keys(METRICS) as MetricKey[]).map((key) => (
+          <label key={key} className="w-28 space-y-1">
+            <span className="text-xs font-mono text-muted-foreground">
+              {METRICS[key].label} ({METRICS[key].unit(units)})
+            </span>
+            <Input type="number" min={0} step="any" value={form[key]}
+              onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))} />
+          </label>
+        ))}
+        <Button disabled={saving} onClick={handleLog}>Log measurement</Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+    </div>
+  )
+}
+export default BodyMetrics
@@ -0,0 +1,104 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { CalendarPlusIcon, CopyIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+// HTTP routes are served from the deployment's .site domain
+const SITE_URL = process.env.NEXT_PUBLIC_CONVEX_SITE_URL
+  ?? process.env.NEXT_PUBLIC_CONVEX_URL!.replace(/\.cloud$/, ".site")
+
+const feedUrl = (token: string) => `${SITE_URL}/calendar.ics?token=${token}`
+
+const toggleClass = (active: boolean) =>
+  `font-mono text-xs text-foreground border hover:text-white ${active
+    ? "bg-primary/20 text-primary border-primary"
+    : "bg-transparent border-border hover:border-primary/50"
+  }`
+
+// subscribe link for Google, Apple or Outlook calendars; the URL is secret, so
+// it can be reset if it gets shared
+const CalendarSubscribe = () => {
+  const feed = useQuery(api.calendarFeeds.getMyFeed)
+  const enableFeed = useMutation(api.calendarFeeds.enableFeed)
+  const resetFeedToken = useMutation(api.calendarFeeds.resetFeedToken)
+  const disableFeed = useMutation(api.calendarFeeds.disableFeed)
+
+  const [includeMeals, setIncludeMeals] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (feed === undefined) return null
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Something went wrong. Please try again.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // webcal:// makes the OS hand the feed to the default calendar app
+  const subscribe = (token: string) => {
+    window.location.href = feedUrl(token).replace(/^https?:/, "webcal:")
+  }
+
+  const meals = feed?.includeMeals ?? includeMeals
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" disabled={busy}
+          onClick={() => run(async () => subscribe(feed ? feed.token : await enableFeed({ includeMeals })))}>
+          <CalendarPlusIcon />
+          Subscribe
+        </Button>
+        <Button size="sm" variant="ghost" disabled={busy} className={toggleClass(meals)}
+          onClick={() => feed ? run(() => enableFeed({ includeMeals: !meals })) : setIncludeMeals(!meals)}>
+          MEAL REMINDERS
+        </Button>
+        {feed && (
+          <>
+            <Button size="sm" variant="ghost" disabled={busy} onClick={() => run(() => resetFeedToken())}>
+              Reset link
+            </Button>
+            <Button size="sm" variant="ghost" disabled={busy} onClick={() => run(() => disableFeed())}>
+              Stop sharing
+            </Button>
+          </>
+        )}
+      </div>
+
+      {feed && (
+        <div className="flex items-center gap-2">
+          <Input readOnly value={feedUrl(feed.token)} className="font-mono text-xs"
+            onFocus={(e) => e.target.select()} />
+          <Button size="sm" variant="outline" onClick={() => run(async () => {
+            await navigator.clipboard.writeText(feedUrl(feed.token))
+            setCopied(true)
+          })}>
+            <CopyIcon />
+            {copied ? "Copied" : "Copy"}
+          </Button>
+        </div>
+      )}
+      {feed && (
+        <p className="text-xs text-muted-foreground">
+          Anyone with this link can see your schedule. Reset it if it has been shared.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+    </div>
+  )
+}
+export default CalendarSubscribe
@@ -0,0 +1,288 @@
+"use client"
+
+import { useMutation } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, SearchIcon, Trash2Icon, XIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { foodItemFromRecord, parseFoodText } from "../../convex/foodMatching"
+import { FoodItem, PlanFood } from "../../convex/nutrition"
+import { moveItem } from "@/lib/utils"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import FoodSearch from "./FoodSearch"
+
+type DraftDietPlan = Doc<"plans">["dietPlan"]
+type DraftMeal = DraftDietPlan["meals"][number]
+
+const NUTRITION_FIELDS = [
+  ["calories", "KCAL"],
+  ["protein", "P (G)"],
+  ["carbs", "C (G)"],
+  ["fat", "F (G)"],
+] as const
+
+const emptyFood = (name = ""): FoodItem => ({
+  name,
+  quantity: 1,
+  unit: "serving",
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+})
+
+type Nutrition = Pick<FoodItem, "calories" | "protein" | "carbs" | "fat">
+
+// `perUnit` is the food's nutrition per unit of quantity, kept while editing so
+// clearing the quantity field doesn't lose it; dropped on save
+type DraftFood = FoodItem & { perUnit?: Nutrition }
+
+const perUnitOf = (food: FoodItem): Nutrition | undefined =>
+  food.quantity > 0
+    ? {
+      calories: food.calories / food.quantity,
+      protein: food.protein / food.quantity,
+      carbs: food.carbs / food.quantity,
+      fat: food.fat / food.quantity,
+    }
+    : undefined
+
+// portions scale their nutrition with them, so changing 100 g to 150 g keeps
+// the numbers consistent
+const withQuantity = (food: DraftFood, quantity: number): DraftFood => {
+  const perUnit = food.perUnit ?? perUnitOf(food)
+  if (!perUnit || !(quantity > 0)) return { ...food, quantity, perUnit }
+  return {
+    ...food,
+    quantity,
+    perUnit,
+    calories: Math.round(perUnit.calories * quantity),
+    protein: Math.round(perUnit.protein * quantity * 10) / 10,
+    carbs: Math.round(perUnit.carbs * quantity * 10) / 10,
+    fat: Math.round(perUnit.fat * quantity * 10) / 10,
+  }
+}
+
+const toFoodItem = (food: DraftFood): FoodItem => {
+  const saved = { ...food, name: food.name.trim(), unit: food.unit.trim() }
+  delete saved.perUnit
+  return saved
+}
+
+const DietPlanEditor = ({ plan, onDone }: { plan: Doc<"plans">; onDone: () => void }) => {
+  const [draft, setDraft] = useState<DraftDietPlan>(() => ({
+    dailyCalories: plan.dietPlan.dailyCalories,
+    macros: plan.dietPlan.macros && { ...plan.dietPlan.macros },
+    meals: plan.dietPlan.meals.map((meal) => ({
+      name: meal.name,
+      foods: meal.foods.map((food) => (typeof food === "string" ? food : { ...food })),
+    })),
+  }))
+  const [lookup, setLookup] = useState<null | { mealIndex: number; foodIndex: number }>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateDietPlan = useMutation(api.plans.updateDietPlan)
+
+  const updateMeals = (update: (meals: DraftMeal[]) => DraftMeal[]) => {
+    setDraft((prev) => ({ ...prev, meals: update(prev.meals) }))
+  }
+
+  const updateFoods = (mealIndex: number, update: (foods: PlanFood[]) => PlanFood[]) => {
+    updateMeals((meals) =>
+      meals.map((meal, i) => (i === mealIndex ? { ...meal, foods: update(meal.foods) } : meal))
+    )
+  }
+
+  const updateFood = (mealIndex: number, foodIndex: number, update: (food: PlanFood) => PlanFood) => {
+    updateFoods(mealIndex, (foods) => foods.map((f, j) => (j === foodIndex ? update(f) : f)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await updateDietPlan({
+        planId: plan._id,
+        dietPlan: {
+          dailyCalories: draft.dailyCalories,
+          macros: draft.macros,
+          meals: draft.meals.map((meal) => ({
+            name: meal.name.trim(),
+            foods: meal.foods.map((food) =>
+              typeof food === "string" ? food.trim() : toFoodItem(food)
+            ),
+          })),
+        },
+      })
+      onDone()
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Failed to save changes.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <label className="flex justify-between items-center gap-4">
+        <span className="font-mono text-sm text-muted-foreground">DAILY CALORIE TARGET</span>
+        <Input type="number" min={1} className="w-32 font-mono" value={draft.dailyCalories}
+          onChange={(e) => setDraft((prev) => ({ ...prev, dailyCalories: Number(e.target.value) }))} />
+      </label>
+
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <span className="font-mono text-sm text-muted-foreground">DAILY MACROS (G)</span>
+        {draft.macros ? (
+          <div className="flex items-center gap-2">
+            {(["protein", "carbs", "fat"] as const).map((key) => (
+              <label key={key} className="flex items-center gap-1 font-mono text-xs text-muted-foreground">
+                {key[0].toUpperCase()}
+                <Input type="number" min={0} className="w-20 font-mono" value={draft.macros![key]}
+                  onChange={(e) => setDraft((prev) => ({
+                    ...prev,
+                    macros: prev.macros && { ...prev.macros, [key]: Number(e.target.value) },
+                  }))} />
+              </label>
+            ))}
+            <Button variant="ghost" size="icon" aria-label="Remove macro targets"
+              onClick={() => setDraft((prev) => ({ ...prev, macros: undefined }))}>
+              <XIcon />
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm"
+            onClick={() => setDraft((prev) => ({ ...prev, macros: { protein: 0, carbs: 0, fat: 0 } }))}>
+            <PlusIcon />
+            Add macro targets
+          </Button>
+        )}
+      </div>
+
+      <div className="h-px w-full bg-border my-4"></div>
+
+      {draft.meals.map((meal, mealIndex) => (
+        <div key={mealIndex} className="border border-border rounded-lg p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input className="flex-1 font-mono" placeholder="Meal name" value={meal.name}
+              onChange={(e) => updateMeals((meals) =>
+                meals.map((m, i) => (i === mealIndex ? { ...m, name: e.target.value } : m)))} />
+            <Button variant="ghost" size="icon" aria-label="Move meal up" disabled={mealIndex === 0}
+              onClick={() => {
+                updateMeals((meals) => moveItem(meals, mealIndex, -1))
+                setLookup(null)
+              }}>
+              <ArrowUpIcon />
+            </Button>
+            <Button variant="ghost" size="icon" aria-label="Move meal down"
+              disabled={mealIndex === draft.meals.length - 1}
+              onClick={() => {
+                updateMeals((meals) => moveItem(meals, mealIndex, 1))
+                setLookup(null)
+              }}>
+              <ArrowDownIcon />
+            </Button>
+            <Button variant="ghost" size="icon" aria-label="Remove meal"
+              className="text-destructive hover:text-destructive"
+              onClick={() => {
+                updateMeals((meals) => meals.filter((_, i) => i !== mealIndex))
+                setLookup(null)
+              }}>
+              <Trash2Icon />
+            </Button>
+          </div>
+
+          <ul className="space-y-3">
+            {meal.foods.map((food, foodIndex) => (
+              <li key={foodIndex} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-primary font-mono">
+                    {String(foodIndex + 1).padStart(2, "0")}
+                  </span>
+                  <Input placeholder="Food" value={typeof food === "string" ? food : food.name}
+                    onChange={(e) => updateFood(mealIndex, foodIndex, (f) =>
+                      typeof f === "string" ? e.target.value : { ...f, name: e.target.value })} />
+                  {typeof food === "string" && (
+                    <Button variant="outline" size="sm"
+                      onClick={() => updateFood(mealIndex, foodIndex, (f) => emptyFood(f as string))}>
+                      <PlusIcon />
+                      Nutrition
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" aria-label="Look up food"
+                    onClick={() => setLookup(lookup?.mealIndex === mealIndex && lookup.foodIndex === foodIndex
+                      ? null
+                      : { mealIndex, foodIndex })}>
+                    <SearchIcon />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label="Remove food"
+                    onClick={() => {
+                      updateFoods(mealIndex, (foods) => foods.filter((_, j) => j !== foodIndex))
+                      setLookup(null)
+                    }}>
+                    <XIcon />
+                  </Button>
+                </div>
+                {lookup?.mealIndex === mealIndex && lookup.foodIndex === foodIndex && (
+                  <div className="pl-7">
+                    <FoodSearch
+                      initialQuery={typeof food === "string" ? parseFoodText(food).name : food.name}
+                      onSelect={(record) => {
+                        updateFood(mealIndex, foodIndex, () => foodItemFromRecord(record))
+                        setLookup(null)
+                      }}
+                    />
+                  </div>
+                )}
+                {typeof food !== "string" && (
+                  <div className="flex flex-wrap items-end gap-2 pl-7">
+                    <label className="w-20 space-y-1">
+                      <span className="text-xs font-mono text-muted-foreground">QTY</span>
+                      <Input type="number" min={0} step="any" value={food.quantity}
+                        onChange={(e) => updateFood(mealIndex, foodIndex, (f) =>
+                          withQuantity(f as DraftFood, Number(e.target.value)))} />
+                    </label>
+                    <label className="w-24 space-y-1">
+                      <span className="text-xs font-mono text-muted-foreground">UNIT</span>
+                      <Input value={food.unit}
+                        onChange={(e) => updateFood(mealIndex, foodIndex, (f) =>
+                          ({ ...(f as FoodItem), unit: e.target.value }))} />
+                    </label>
+                    {NUTRITION_FIELDS.map(([key, label]) => (
+                      <label key={key} className="w-20 space-y-1">
+                        <span className="text-xs font-mono text-muted-foreground">{label}</span>
+                        <Input type="number" min={0} step="any" value={food[key]}
+                          onChange={(e) => updateFood(mealIndex, foodIndex, (f) =>
+                            ({ ...(f as DraftFood), [key]: Number(e.target.value), perUnit: undefined }))} />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <Button variant="outline" size="sm" onClick={() => updateFoods(mealIndex, (foods) => [...foods, emptyFood()])}>
+            <PlusIcon />
+            Add food
+          </Button>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => updateMeals((meals) => [...meals, { name: "", foods: [] }])}>
+        <PlusIcon />
+        Add meal
+      </Button>
+
+      {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone} disabled={saving}>Cancel</Button>
+        <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Diet"}</Button>
+      </div>
+    </div>
+  )
+}
+export default DietPlanEditor
@@ -0,0 +1,140 @@
+"use client"
+
+import { useQuery } from "convex/react"
+import { AlertTriangleIcon, PencilIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import {
+  CALORIE_DRIFT_TOLERANCE,
+  calorieDrift,
+  NutritionTotals,
+  PlanFood,
+  planNutrition,
+  sumNutrition,
+} from "../../convex/nutrition"
+import { Button } from "./ui/button"
+
+const formatMacros = ({ protein, carbs, fat }: Omit<NutritionTotals, "calories">) =>
+  `P ${Math.round(protein)}g · C ${Math.round(carbs)}g · F ${Math.round(fat)}g`
+
+const DietPlanView = ({ plan, onEdit }: { plan: Doc<"plans">; onEdit: () => void }) => {
+  const { dietPlan } = plan
+  // plain-text foods from older plans get estimates from the food database
+  const estimates = useQuery(api.foods.matchPlanFoods, { planId: plan._id })
+  const meals = dietPlan.meals.map((meal, mealIndex) => ({
+    ...meal,
+    foods: meal.foods.map((food, foodIndex): PlanFood => {
+      const estimate = estimates?.[mealIndex]?.[foodIndex]
+      return typeof food === "string" && estimate
+        ? {
+          name: food,
+          quantity: Math.round(estimate.grams),
+          unit: "g",
+          calories: estimate.calories,
+          protein: estimate.protein,
+          carbs: estimate.carbs,
+          fat: estimate.fat,
+        }
+        : food
+    }),
+  }))
+  const hasEstimates = dietPlan.meals.some((meal, mealIndex) =>
+    meal.foods.some((food, foodIndex) => typeof food === "string" && estimates?.[mealIndex]?.[foodIndex]))
+
+  const dayTotals = planNutrition(meals)
+  const drift = calorieDrift({ dailyCalories: dietPlan.dailyCalories, meals })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center mb-4">
+        <span className="font-mono text-sm text-muted-foreground">
+          DAILY CALORIE TARGET
+        </span>
+        <div className="flex items-center gap-4">
+          <div className="text-right">
+            <div className="font-mono text-xl text-primary">
+              {dietPlan.dailyCalories} KCAL
+            </div>
+            {dietPlan.macros && (
+              <div className="font-mono text-xs text-muted-foreground">{formatMacros(dietPlan.macros)}</div>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={onEdit}>
+            <PencilIcon />
+            Edit
+          </Button>
+        </div>
+      </div>
+
+      {drift !== null && (
+        <div className={`flex flex-wrap items-center justify-between gap-2 rounded border px-3 py-2 font-mono text-xs ${Math.abs(drift) > CALORIE_DRIFT_TOLERANCE
+          ? "border-amber-400/50 bg-amber-400/10 text-amber-400"
+          : "border-border text-muted-foreground"
+          }`}>
+          <span className="flex items-center gap-2">
+            {Math.abs(drift) > CALORIE_DRIFT_TOLERANCE && <AlertTriangleIcon className="size-4" />}
+            MEALS TOTAL {hasEstimates && "≈ "}{Math.round(dayTotals.calories)} KCAL
+            {Math.abs(drift) > CALORIE_DRIFT_TOLERANCE &&
+              ` (${drift > 0 ? "+" : ""}${Math.round(drift * 100)}% vs target)`}
+          </span>
+          <span>{formatMacros(dayTotals)}</span>
+        </div>
+      )}
+
+      <div className="h-px w-full bg-border my-4"></div>
+
+      <div className="space-y-4">
+        {meals.map((meal, index) => {
+          const mealTotals = sumNutrition(meal.foods)
+          return (
+            <div
+              key={index}
+              className="border border-border rounded-lg overflow-hidden p-4"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 rounded-full bg-primary"></div>
+                  <h4 className="font-mono text-primary">{meal.name}</h4>
+                </div>
+                {meal.foods.some((food) => typeof food !== "string") && (
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {Math.round(mealTotals.calories)} KCAL · {formatMacros(mealTotals)}
+                  </span>
+                )}
+              </div>
+              <ul className="space-y-2">
+                {meal.foods.map((food, foodIndex) => {
+                  const estimate = estimates?.[index]?.[foodIndex]
+                  return (
+                    <li
+                      key={foodIndex}
+                      className="flex items-center gap-2 text-sm text-muted-foreground"
+                    >
+                      <span className="text-xs text-primary font-mono">
+                        {String(foodIndex + 1).padStart(2, "0")}
+                      </span>
+                      {typeof food === "string" ? (
+                        food
+                      ) : (
+                        <>
+                          <span className="text-foreground">{food.name}</span>
+                          <span title={estimate ? `Estimated as ${estimate.foodName}` : undefined}>
+                            {estimate && "≈ "}{food.quantity} {food.unit}
+                          </span>
+                          <span className="ml-auto font-mono text-xs">
+                            {Math.round(food.calories)} kcal · {formatMacros(food)}
+                          </span>
+                        </>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+export default DietPlanView
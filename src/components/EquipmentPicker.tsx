@@ -0,0 +1,44 @@
+"use client"
+
+import { EQUIPMENT, EQUIPMENT_PRESETS } from "../../convex/equipment"
+import { Button } from "./ui/button"
+
+const toggleClass = (active: boolean) =>
+  `text-foreground border hover:text-white ${active
+    ? "bg-primary/20 text-primary border-primary"
+    : "bg-transparent border-border hover:border-primary/50"
+  }`
+
+// presets fill in a typical setup; individual items can then be toggled,
+// keeping the selection in the library's order
+const EquipmentPicker = ({ value, onChange }: { value: string[]; onChange: (equipment: string[]) => void }) => {
+  const matchesPreset = (equipment: string[]) =>
+    equipment.length === value.length && equipment.every((item) => value.includes(item))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {EQUIPMENT_PRESETS.map((preset) => (
+          <Button key={preset.label} size="sm" type="button" onClick={() => onChange(preset.equipment)}
+            className={toggleClass(matchesPreset(preset.equipment))}>
+            {preset.label.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {EQUIPMENT.map((item) => (
+          <Button key={item} size="sm" type="button" variant="ghost"
+            onClick={() =>
+              onChange(value.includes(item)
+                ? value.filter((i) => i !== item)
+                : EQUIPMENT.filter((i) => i === item || value.includes(i)))
+            }
+            className={`font-mono text-xs ${toggleClass(value.includes(item))}`}>
+            {item.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+export default EquipmentPicker
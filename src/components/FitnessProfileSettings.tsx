@@ -0,0 +1,190 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { PencilIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { DEFAULT_EQUIPMENT, describeEquipment } from "../../convex/equipment"
+import CornerElements from "./CornerElements"
+import EquipmentPicker from "./EquipmentPicker"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import WeekdayPicker from "./WeekdayPicker"
+
+type ProfileForm = {
+  age: string
+  height: string
+  weight: string
+  injuries: string
+  workoutDays: string[]
+  fitnessGoal: string
+  fitnessLevel: string
+  dietaryRestrictions: string
+  equipment: string[]
+}
+
+const toForm = (profile: Doc<"fitnessProfiles"> | null): ProfileForm => ({
+  age: profile ? String(profile.age) : "",
+  height: profile?.height ?? "",
+  weight: profile?.weight ?? "",
+  injuries: profile?.injuries ?? "",
+  workoutDays: profile?.workoutDays ?? [],
+  fitnessGoal: profile?.fitnessGoal ?? "",
+  fitnessLevel: profile?.fitnessLevel ?? "",
+  dietaryRestrictions: profile?.dietaryRestrictions.join(", ") ?? "",
+  equipment: profile?.equipment ?? DEFAULT_EQUIPMENT,
+})
+
+const FitnessProfileSettings = () => {
+  const profile = useQuery(api.fitnessProfiles.getMyProfile)
+  const updateMyProfile = useMutation(api.fitnessProfiles.updateMyProfile)
+
+  const [form, setForm] = useState<ProfileForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (profile === undefined) return null
+
+  const setField = <K extends keyof ProfileForm>(key: K, value: ProfileForm[K]) =>
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev))
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      await updateMyProfile({
+        age: Number(form.age),
+        height: form.height,
+        weight: form.weight,
+        injuries: form.injuries,
+        workoutDays: form.workoutDays,
+        fitnessGoal: form.fitnessGoal,
+        fitnessLevel: form.fitnessLevel,
+        dietaryRestrictions: form.dietaryRestrictions.split(","),
+        equipment: form.equipment,
+      })
+      setForm(null)
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Failed to save profile.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const summary: [string, string][] = profile
+    ? [
+      ["AGE", String(profile.age)],
+      ["HEIGHT", profile.height],
+      ["WEIGHT", profile.weight],
+      ["GOAL", profile.fitnessGoal],
+      ["LEVEL", profile.fitnessLevel],
+      ["DAYS", profile.workoutDays.join(", ")],
+      ["EQUIPMENT", describeEquipment(profile.equipment ?? DEFAULT_EQUIPMENT)],
+      ["INJURIES", profile.injuries || "None"],
+      ["DIET", profile.dietaryRestrictions.join(", ") || "None"],
+    ]
+    : []
+
+  return (
+    <div className="relative backdrop-blur-sm border border-border p-6 mb-8">
+      <CornerElements />
+
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold tracking-tight">
+          <span className="text-primary">Fitness</span>{" "}
+          <span className="text-foreground">Profile</span>
+        </h2>
+        {!form && (
+          <Button size="sm" variant="outline" onClick={() => setForm(toForm(profile))}>
+            <PencilIcon />
+            {profile ? "Edit" : "Set up"}
+          </Button>
+        )}
+      </div>
+
+      {form ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">AGE</span>
+              <Input type="number" min={13} max={100} value={form.age}
+                onChange={(e) => setField("age", e.target.value)} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">HEIGHT</span>
+              <Input placeholder={`5'10" or 178 cm`} value={form.height}
+                onChange={(e) => setField("height", e.target.value)} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">WEIGHT</span>
+              <Input placeholder="170 lbs or 77 kg" value={form.weight}
+                onChange={(e) => setField("weight", e.target.value)} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">LEVEL</span>
+              <Input placeholder="Beginner" value={form.fitnessLevel}
+                onChange={(e) => setField("fitnessLevel", e.target.value)} />
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-xs font-mono text-muted-foreground">FITNESS GOAL</span>
+            <Input placeholder="Build muscle" value={form.fitnessGoal}
+              onChange={(e) => setField("fitnessGoal", e.target.value)} />
+          </label>
+
+          <div className="space-y-1">
+            <span className="text-xs font-mono text-muted-foreground">WORKOUT DAYS</span>
+            <WeekdayPicker value={form.workoutDays} onChange={(days) => setField("workoutDays", days)} />
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-mono text-muted-foreground">EQUIPMENT</span>
+            <EquipmentPicker value={form.equipment} onChange={(equipment) => setField("equipment", equipment)} />
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-xs font-mono text-muted-foreground">INJURIES</span>
+            <Input placeholder="None" value={form.injuries}
+              onChange={(e) => setField("injuries", e.target.value)} />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-xs font-mono text-muted-foreground">DIETARY RESTRICTIONS (COMMA SEPARATED)</span>
+            <Input placeholder="Vegetarian, no nuts" value={form.dietaryRestrictions}
+              onChange={(e) => setField("dietaryRestrictions", e.target.value)} />
+          </label>
+
+          {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button disabled={saving} onClick={handleSave}>Save profile</Button>
+            <Button variant="outline" disabled={saving} onClick={() => {
+              setForm(null)
+              setError(null)
+            }}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : profile ? (
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-3">
+          {summary.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs font-mono text-muted-foreground">{label}</dt>
+              <dd className="text-foreground">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-muted-foreground">
+          Your answers from the AI onboarding call will appear here, and are reused the next time you generate a plan.
+        </p>
+      )}
+    </div>
+  )
+}
+export default FitnessProfileSettings
@@ -0,0 +1,213 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { ChevronLeftIcon, ChevronRightIcon, PlusIcon, XIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { foodName, NutritionTotals, sumNutrition } from "../../convex/nutrition"
+import CornerElements from "./CornerElements"
+import FoodSearch from "./FoodSearch"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+// YYYY-MM-DD in the viewer's time zone
+const toLocalDate = (date: Date) => date.toLocaleDateString("en-CA")
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T12:00:00`)
+  shifted.setDate(shifted.getDate() + days)
+  return toLocalDate(shifted)
+}
+
+const AdherenceBar = ({ label, logged, target, unit }: { label: string; logged: number; target: number; unit: string }) => {
+  const ratio = target > 0 ? logged / target : 0
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between font-mono text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className={ratio > 1.1 ? "text-amber-400" : "text-foreground"}>
+          {Math.round(logged)} / {Math.round(target)} {unit}
+        </span>
+      </div>
+      <div className="h-2 rounded bg-muted/40 overflow-hidden">
+        <div className={`h-full ${ratio > 1.1 ? "bg-amber-400" : "bg-primary"}`}
+          style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+      </div>
+    </div>
+  )
+}
+
+const FoodDiary = ({ plan }: { plan: Doc<"plans"> }) => {
+  const [date, setDate] = useState(() => toLocalDate(new Date()))
+  const logs = useQuery(api.foodLogs.getFoodLogs, { date })
+  const quickAddPlanFood = useMutation(api.foodLogs.quickAddPlanFood)
+  const logDatabaseFood = useMutation(api.foodLogs.logDatabaseFood)
+  const removeFoodLog = useMutation(api.foodLogs.removeFoodLog)
+
+  const [addingTo, setAddingTo] = useState<string | null>(null)
+  const [selectedFood, setSelectedFood] = useState<Doc<"foods"> | null>(null)
+  const [quantity, setQuantity] = useState("1")
+  const [unit, setUnit] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (logs === undefined) return null
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Something went wrong. Please try again.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const closeAdd = () => {
+    setAddingTo(null)
+    setSelectedFood(null)
+  }
+
+  const today = toLocalDate(new Date())
+  // only logs made against this plan count towards its targets
+  const planLogs = logs.filter((log) => log.planId === plan._id)
+  const totals: NutritionTotals = sumNutrition(planLogs)
+  const { macros } = plan.dietPlan
+
+  return (
+    <div className="relative backdrop-blur-sm border border-border p-6">
+      <CornerElements />
+
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold tracking-tight">
+          <span className="text-primary">Food</span>{" "}
+          <span className="text-foreground">Diary</span>
+        </h2>
+        <div className="flex items-center gap-1 font-mono text-xs text-muted-foreground">
+          <Button variant="ghost" size="icon" aria-label="Previous day" onClick={() => setDate(shiftDate(date, -1))}>
+            <ChevronLeftIcon />
+          </Button>
+          <span>{date === today ? "TODAY" : date}</span>
+          <Button variant="ghost" size="icon" aria-label="Next day" disabled={date >= today}
+            onClick={() => setDate(shiftDate(date, 1))}>
+            <ChevronRightIcon />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2 mb-6">
+        <AdherenceBar label="CALORIES" logged={totals.calories} target={plan.dietPlan.dailyCalories} unit="kcal" />
+        {macros && (
+          <>
+            <AdherenceBar label="PROTEIN" logged={totals.protein} target={macros.protein} unit="g" />
+            <AdherenceBar label="CARBS" logged={totals.carbs} target={macros.carbs} unit="g" />
+            <AdherenceBar label="FAT" logged={totals.fat} target={macros.fat} unit="g" />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {plan.dietPlan.meals.map((meal, mealIndex) => {
+          const mealLogs = planLogs.filter((log) => log.mealName === meal.name)
+          return (
+            <div key={mealIndex} className="border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="font-mono text-primary">{meal.name}</h4>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {Math.round(sumNutrition(mealLogs).calories)} KCAL
+                </span>
+              </div>
+
+              {mealLogs.length > 0 && (
+                <ul className="space-y-1">
+                  {mealLogs.map((log) => (
+                    <li key={log._id} className="flex items-center gap-2 text-sm">
+                      <span className="text-foreground">{log.name}</span>
+                      <span className="text-muted-foreground">{log.quantity} {log.unit}</span>
+                      <span className="ml-auto font-mono text-xs text-muted-foreground">
+                        {Math.round(log.calories)} kcal
+                      </span>
+                      <Button variant="ghost" size="icon" aria-label="Remove entry" disabled={busy}
+                        onClick={() => run(() => removeFoodLog({ foodLogId: log._id }))}>
+                        <XIcon />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {meal.foods.map((food, foodIndex) => (
+                  <Button key={foodIndex} variant="outline" size="sm" disabled={busy}
+                    className="border-dashed"
+                    onClick={() => run(() => quickAddPlanFood({ planId: plan._id, date, mealIndex, foodIndex }))}>
+                    <PlusIcon />
+                    {foodName(food)}
+                  </Button>
+                ))}
+                {addingTo !== meal.name && (
+                  <Button variant="ghost" size="sm" onClick={() => {
+                    setAddingTo(meal.name)
+                    setSelectedFood(null)
+                  }}>
+                    <PlusIcon />
+                    Other food
+                  </Button>
+                )}
+              </div>
+
+              {addingTo === meal.name && (
+                selectedFood ? (
+                  <div className="flex flex-wrap items-end gap-2">
+                    <span className="text-sm text-foreground self-center">{selectedFood.name}</span>
+                    <Input type="number" min={0} step="any" className="w-20" value={quantity}
+                      onChange={(e) => setQuantity(e.target.value)} />
+                    <select
+                      value={unit}
+                      onChange={(e) => setUnit(e.target.value)}
+                      className="bg-background border border-border rounded px-2 py-2 font-mono text-sm"
+                    >
+                      {[...new Set([...selectedFood.portions.map((p) => p.unit), "g"])].map((u) => (
+                        <option key={u} value={u}>{u}</option>
+                      ))}
+                    </select>
+                    <Button size="sm" disabled={busy} onClick={() => run(async () => {
+                      await logDatabaseFood({
+                        planId: plan._id,
+                        date,
+                        mealName: meal.name,
+                        foodId: selectedFood._id,
+                        quantity: Number(quantity),
+                        unit,
+                      })
+                      closeAdd()
+                    })}>
+                      Log
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={closeAdd}>Cancel</Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <FoodSearch onSelect={(food) => {
+                      setSelectedFood(food)
+                      setQuantity("1")
+                      setUnit(food.portions[0]?.unit ?? "g")
+                    }} />
+                    <Button variant="ghost" size="sm" onClick={closeAdd}>Cancel</Button>
+                  </div>
+                )
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {error && <p className="text-sm text-destructive font-mono mt-4">{error}</p>}
+    </div>
+  )
+}
+export default FoodDiary
@@ -0,0 +1,60 @@
+"use client"
+
+import { useQuery } from "convex/react"
+import { useEffect, useState } from "react"
+import { SearchIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { Input } from "./ui/input"
+
+const FoodSearch = ({
+  initialQuery = "",
+  onSelect,
+}: {
+  initialQuery?: string
+  onSelect: (food: Doc<"foods">) => void
+}) => {
+  const [query, setQuery] = useState(initialQuery)
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery)
+
+  // avoid a new search subscription on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 250)
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const results = useQuery(
+    api.foods.searchFoods,
+    debouncedQuery.trim().length >= 2 ? { query: debouncedQuery } : "skip"
+  )
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+        <Input autoFocus className="pl-8" placeholder="Search foods..." value={query}
+          onChange={(e) => setQuery(e.target.value)} />
+      </div>
+      {results && (
+        results.length > 0 ? (
+          <ul className="border border-border rounded divide-y divide-border max-h-56 overflow-y-auto">
+            {results.map((food) => (
+              <li key={food._id}>
+                <button type="button" onClick={() => onSelect(food)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-primary/10">
+                  <span className="text-foreground">{food.name}</span>
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {food.per100g.calories} kcal / 100 g
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs font-mono text-muted-foreground">No matching foods.</p>
+        )
+      )}
+    </div>
+  )
+}
+export default FoodSearch
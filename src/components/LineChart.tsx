@@ -0,0 +1,66 @@
+type Point = { x: number; y: number }
+
+const WIDTH = 400
+const HEIGHT = 160
+const PAD = { top: 12, right: 12, bottom: 24, left: 44 }
+
+// dependency-free SVG line chart; labels only the y range and first/last x
+const LineChart = ({
+  points,
+  formatX,
+  formatY,
+}: {
+  points: Point[]
+  formatX: (x: number) => string
+  formatY: (y: number) => string
+}) => {
+  if (points.length === 0) return null
+
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  // pad a flat series so it draws mid-chart instead of on the axis
+  const minY = Math.min(...ys) === Math.max(...ys) ? Math.min(...ys) - 1 : Math.min(...ys)
+  const maxY = Math.min(...ys) === Math.max(...ys) ? Math.max(...ys) + 1 : Math.max(...ys)
+
+  const scaleX = (x: number) =>
+    maxX === minX
+      ? (PAD.left + WIDTH - PAD.right) / 2
+      : PAD.left + ((x - minX) / (maxX - minX)) * (WIDTH - PAD.left - PAD.right)
+  const scaleY = (y: number) =>
+    PAD.top + (1 - (y - minY) / (maxY - minY)) * (HEIGHT - PAD.top - PAD.bottom)
+
+  const path = points.map((p) => `${scaleX(p.x)},${scaleY(p.y)}`).join(" ")
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto font-mono">
+      <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom}
+        className="stroke-border" />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={HEIGHT - PAD.bottom} className="stroke-border" />
+
+      <text x={PAD.left - 4} y={scaleY(maxY) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        {formatY(maxY)}
+      </text>
+      <text x={PAD.left - 4} y={scaleY(minY) + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        {formatY(minY)}
+      </text>
+      <text x={PAD.left} y={HEIGHT - 6} className="fill-muted-foreground text-[10px]">
+        {formatX(minX)}
+      </text>
+      {maxX !== minX && (
+        <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" className="fill-muted-foreground text-[10px]">
+          {formatX(maxX)}
+        </text>
+      )}
+
+      <polyline points={path} fill="none" className="stroke-primary" strokeWidth={2} />
+      {points.map((p, index) => (
+        <circle key={index} cx={scaleX(p.x)} cy={scaleY(p.y)} r={3} className="fill-primary">
+          <title>{`${formatX(p.x)}: ${formatY(p.y)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+export default LineChart
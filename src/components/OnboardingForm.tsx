@@ -0,0 +1,221 @@
+"use client"
+
+import { ConvexError } from "convex/values"
+import { ReactNode, useState } from "react"
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react"
+import { Doc } from "../../convex/_generated/dataModel"
+import { DEFAULT_EQUIPMENT, describeEquipment } from "../../convex/equipment"
+import { GenerateProgramPayload } from "../../convex/planValidation"
+import CornerElements from "./CornerElements"
+import EquipmentPicker from "./EquipmentPicker"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import WeekdayPicker from "./WeekdayPicker"
+
+export type OnboardingAnswers = Omit<GenerateProgramPayload, "user_id">
+
+const FITNESS_LEVELS = ["Beginner", "Intermediate", "Advanced"]
+
+type Answers = {
+  age: string
+  height: string
+  weight: string
+  fitnessGoal: string
+  fitnessLevel: string
+  workoutDays: string[]
+  equipment: string[]
+  injuries: string
+  dietaryRestrictions: string
+}
+
+// each step only lets the user continue once its required answers are filled
+// in; the real validation happens server-side, shared with the voice webhook
+const STEPS: { title: string; complete: (answers: Answers) => boolean }[] = [
+  {
+    title: "About You",
+    complete: (a) => a.age.trim() !== "" && a.height.trim() !== "" && a.weight.trim() !== "",
+  },
+  {
+    title: "Training",
+    complete: (a) => a.fitnessGoal.trim() !== "" && a.fitnessLevel !== "" && a.workoutDays.length > 0,
+  },
+  { title: "Health & Diet", complete: () => true },
+  { title: "Review", complete: () => true },
+]
+
+const fromProfile = (profile: Doc<"fitnessProfiles"> | null): Answers => ({
+  age: profile ? String(profile.age) : "",
+  height: profile?.height ?? "",
+  weight: profile?.weight ?? "",
+  fitnessGoal: profile?.fitnessGoal ?? "",
+  fitnessLevel: profile?.fitnessLevel ?? "",
+  workoutDays: profile?.workoutDays ?? [],
+  equipment: profile?.equipment ?? DEFAULT_EQUIPMENT,
+  injuries: profile?.injuries ?? "",
+  dietaryRestrictions: profile?.dietaryRestrictions.join(", ") ?? "",
+})
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="block space-y-1">
+    <span className="text-xs font-mono text-muted-foreground">{label}</span>
+    {children}
+  </label>
+)
+
+const OnboardingForm = ({
+  profile,
+  onSubmit,
+}: {
+  profile: Doc<"fitnessProfiles"> | null
+  onSubmit: (answers: OnboardingAnswers) => Promise<unknown>
+}) => {
+  const [answers, setAnswers] = useState<Answers>(() => fromProfile(profile))
+  const [step, setStep] = useState(0)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const setField = <K extends keyof Answers>(key: K, value: Answers[K]) =>
+    setAnswers((prev) => ({ ...prev, [key]: value }))
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit({
+        age: Number(answers.age),
+        height: answers.height,
+        weight: answers.weight,
+        injuries: answers.injuries,
+        workout_days: answers.workoutDays,
+        fitness_goal: answers.fitnessGoal,
+        fitness_level: answers.fitnessLevel,
+        dietary_restrictions: answers.dietaryRestrictions.split(","),
+        equipment: answers.equipment,
+      })
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Failed to submit your answers. Please try again.")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const review: [string, string][] = [
+    ["AGE", answers.age],
+    ["HEIGHT", answers.height],
+    ["WEIGHT", answers.weight],
+    ["GOAL", answers.fitnessGoal],
+    ["LEVEL", answers.fitnessLevel],
+    ["DAYS", answers.workoutDays.join(", ")],
+    ["EQUIPMENT", describeEquipment(answers.equipment)],
+    ["INJURIES", answers.injuries || "None"],
+    ["DIET", answers.dietaryRestrictions || "None"],
+  ]
+
+  return (
+    <div className="relative backdrop-blur-sm border border-border p-6 mb-8">
+      <CornerElements />
+
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold tracking-tight">
+          <span className="text-primary">{STEPS[step].title}</span>
+        </h2>
+        <div className="font-mono text-xs text-muted-foreground">
+          STEP {step + 1}/{STEPS.length}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {step === 0 && (
+          <>
+            <Field label="AGE">
+              <Input type="number" min={13} max={100} value={answers.age}
+                onChange={(e) => setField("age", e.target.value)} />
+            </Field>
+            <Field label="HEIGHT">
+              <Input placeholder={`5'10" or 178 cm`} value={answers.height}
+                onChange={(e) => setField("height", e.target.value)} />
+            </Field>
+            <Field label="WEIGHT">
+              <Input placeholder="170 lbs or 77 kg" value={answers.weight}
+                onChange={(e) => setField("weight", e.target.value)} />
+            </Field>
+          </>
+        )}
+
+        {step === 1 && (
+          <>
+            <Field label="FITNESS GOAL">
+              <Input placeholder="Build muscle, lose fat, run a 10k..." value={answers.fitnessGoal}
+                onChange={(e) => setField("fitnessGoal", e.target.value)} />
+            </Field>
+            <Field label="FITNESS LEVEL">
+              <select
+                value={answers.fitnessLevel}
+                onChange={(e) => setField("fitnessLevel", e.target.value)}
+                className="w-full bg-background border border-border rounded px-2 py-2 font-mono text-sm"
+              >
+                <option value="" disabled>SELECT...</option>
+                {/* keep a free-form level from an earlier voice call selectable */}
+                {[...new Set([...FITNESS_LEVELS, answers.fitnessLevel])].filter(Boolean).map((level) => (
+                  <option key={level} value={level}>{level.toUpperCase()}</option>
+                ))}
+              </select>
+            </Field>
+            <div className="space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">WORKOUT DAYS</span>
+              <WeekdayPicker value={answers.workoutDays} onChange={(days) => setField("workoutDays", days)} />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">AVAILABLE EQUIPMENT</span>
+              <EquipmentPicker value={answers.equipment} onChange={(equipment) => setField("equipment", equipment)} />
+            </div>
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <Field label="INJURIES OR LIMITATIONS">
+              <Input placeholder="None" value={answers.injuries}
+                onChange={(e) => setField("injuries", e.target.value)} />
+            </Field>
+            <Field label="DIETARY RESTRICTIONS (COMMA SEPARATED)">
+              <Input placeholder="Vegetarian, no nuts" value={answers.dietaryRestrictions}
+                onChange={(e) => setField("dietaryRestrictions", e.target.value)} />
+            </Field>
+          </>
+        )}
+
+        {step === 3 && (
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-3">
+            {review.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-xs font-mono text-muted-foreground">{label}</dt>
+                <dd className="text-foreground">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+
+        <div className="flex justify-between gap-2 pt-2">
+          <Button variant="outline" disabled={step === 0 || submitting} onClick={() => setStep(step - 1)}>
+            <ChevronLeftIcon />
+            Back
+          </Button>
+          {step < STEPS.length - 1 ? (
+            <Button disabled={!STEPS[step].complete(answers)} onClick={() => setStep(step + 1)}>
+              Next
+              <ChevronRightIcon />
+            </Button>
+          ) : (
+            <Button disabled={submitting} onClick={handleSubmit}>
+              {submitting ? "Submitting..." : "Generate My Program"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+export default OnboardingForm
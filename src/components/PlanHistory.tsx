@@ -0,0 +1,135 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { RotateCcwIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { diffDietPlans, diffWorkoutPlans, PlanChange } from "@/lib/planDiff"
+import { Button } from "./ui/button"
+
+const SOURCE_LABELS = { ai: "AI", user: "YOU", coach: "COACH" }
+
+const CHANGE_STYLES = {
+  added: { marker: "+", className: "text-green-500" },
+  removed: { marker: "-", className: "text-destructive" },
+  changed: { marker: "~", className: "text-primary" },
+}
+
+const ChangeList = ({ title, changes }: { title: string; changes: PlanChange[] }) => (
+  <div className="space-y-2">
+    <h4 className="font-mono text-sm text-muted-foreground">{title}</h4>
+    {changes.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No changes</p>
+    ) : (
+      <ul className="space-y-1 font-mono text-sm">
+        {changes.map((change, index) => (
+          <li key={index} className={CHANGE_STYLES[change.kind].className}>
+            {CHANGE_STYLES[change.kind].marker} {change.label}
+            {change.before && change.after ? (
+              <span className="text-muted-foreground">: {change.before} → {change.after}</span>
+            ) : (
+              (change.before || change.after) && (
+                <span className="text-muted-foreground">: {change.before || change.after}</span>
+              )
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+)
+
+const PlanHistory = ({ plan }: { plan: Doc<"plans"> }) => {
+  const revisions = useQuery(api.planRevisions.getPlanRevisions, { planId: plan._id })
+  const restoreRevision = useMutation(api.planRevisions.restoreRevision)
+
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!revisions) return null
+
+  if (revisions.length === 0) {
+    return (
+      <p className="font-mono text-sm text-muted-foreground">
+        No revisions yet. Changes to this plan will appear here.
+      </p>
+    )
+  }
+
+  // default to comparing the previous revision with the latest one
+  const compare = revisions.find((r) => r._id === compareId) ?? revisions[0]
+  const base = revisions.find((r) => r._id === baseId) ?? revisions[1] ?? revisions[0]
+
+  const handleRestore = async (revision: Doc<"planRevisions">) => {
+    setRestoringId(revision._id)
+    setError(null)
+    try {
+      await restoreRevision({ revisionId: revision._id })
+      setBaseId(null)
+      setCompareId(null)
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Failed to restore revision.")
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const revisionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-background border border-border rounded px-2 py-1 font-mono text-sm"
+    >
+      {revisions.map((revision) => (
+        <option key={revision._id} value={revision._id}>
+          #{revision.revision} · {SOURCE_LABELS[revision.source]} · {new Date(revision._creationTime).toLocaleString()}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <ul className="space-y-2">
+        {revisions.map((revision, index) => (
+          <li key={revision._id} className="flex items-center gap-3 border border-border rounded p-3 bg-background/50">
+            <span className="font-mono text-primary">#{revision.revision}</span>
+            <span className="px-2 py-0.5 rounded bg-primary/20 text-primary text-xs font-mono">
+              {SOURCE_LABELS[revision.source]}
+            </span>
+            <span className="text-sm text-foreground">{revision.note}</span>
+            <span className="text-xs text-muted-foreground font-mono">
+              {new Date(revision._creationTime).toLocaleString()}
+            </span>
+            {index === 0 ? (
+              <span className="ml-auto text-xs font-mono text-green-500">CURRENT</span>
+            ) : (
+              <Button variant="outline" size="sm" className="ml-auto"
+                disabled={restoringId !== null} onClick={() => handleRestore(revision)}>
+                <RotateCcwIcon />
+                {restoringId === revision._id ? "Restoring..." : "Restore"}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+
+      {revisions.length > 1 && (
+        <div className="border border-border rounded-lg p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 font-mono text-sm text-muted-foreground">
+            COMPARE {revisionSelect(base._id, setBaseId)} WITH {revisionSelect(compare._id, setCompareId)}
+          </div>
+          <ChangeList title="WORKOUT" changes={diffWorkoutPlans(base.workoutPlan, compare.workoutPlan)} />
+          <ChangeList title="DIET" changes={diffDietPlans(base.dietPlan, compare.dietPlan)} />
+        </div>
+      )}
+    </div>
+  )
+}
+export default PlanHistory
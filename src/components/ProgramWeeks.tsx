@@ -0,0 +1,44 @@
+import { describeLoad, Program } from "../../convex/periodization"
+import { Button } from "./ui/button"
+
+const toggleClass = (active: boolean) =>
+  `font-mono text-xs text-foreground border hover:text-white ${active
+    ? "bg-primary/20 text-primary border-primary"
+    : "bg-transparent border-border hover:border-primary/50"
+  }`
+
+// week chips for a multi-week program; the current week is marked so other
+// weeks can be previewed without losing track of it
+const ProgramWeeks = ({ program, current, selected, onSelect }: {
+  program: Program
+  current: { index: number; cycle: number }
+  selected: number
+  onSelect: (index: number) => void
+}) => {
+  const week = program.weeks[selected]
+  const load = describeLoad(week.loadPercent)
+
+  return (
+    <div className="space-y-2">
+      <div className="font-mono text-sm">
+        <span className="text-primary">WEEK {selected + 1} OF {program.weeks.length}</span>
+        <span className="text-muted-foreground">
+          {" "}· {week.phase.toUpperCase()}
+          {load && ` · ${load.toUpperCase()}`}
+          {selected === current.index ? " · THIS WEEK" : ""}
+          {current.cycle > 1 && ` · BLOCK ${current.cycle}`}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {program.weeks.map((w, index) => (
+          <Button key={index} size="sm" variant="ghost" title={w.phase}
+            className={toggleClass(index === selected)} onClick={() => onSelect(index)}>
+            W{index + 1}
+            {index === current.index && <span className="size-1.5 rounded-full bg-primary" />}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+export default ProgramWeeks
@@ -0,0 +1,146 @@
+"use client"
+
+import { useQuery } from "convex/react"
+import { useState } from "react"
+import { TrophyIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import LineChart from "./LineChart"
+
+const MUSCLE_COLORS: Record<string, string> = {
+  chest: "bg-primary",
+  back: "bg-secondary",
+  shoulders: "bg-sky-300",
+  arms: "bg-cyan-700",
+  legs: "bg-emerald-500",
+  glutes: "bg-teal-300",
+  core: "bg-amber-400",
+  cardio: "bg-rose-400",
+  other: "bg-muted-foreground",
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+
+const ProgressAnalytics = () => {
+  // weeks and days are bucketed in the viewer's local time
+  const [tzOffsetMinutes] = useState(() => new Date().getTimezoneOffset())
+  const weeklyVolume = useQuery(api.progress.getWeeklyVolume, { weeks: 8, tzOffsetMinutes })
+  const strength = useQuery(api.progress.getStrengthProgress, { tzOffsetMinutes })
+  const [selectedExercise, setSelectedExercise] = useState<string | null>(null)
+
+  if (!weeklyVolume || !strength) return null
+
+  if (!weeklyVolume.some((week) => week.muscleGroups.length > 0) && strength.length === 0) {
+    return (
+      <p className="font-mono text-sm text-muted-foreground">
+        No logged sets yet. Start today&apos;s workout to begin tracking your progress.
+      </p>
+    )
+  }
+
+  const weeklyTotals = weeklyVolume.map((week) => week.muscleGroups.reduce((sum, g) => sum + g.volume, 0))
+  const maxWeeklyVolume = Math.max(1, ...weeklyTotals)
+  const muscleGroups = [...new Set(weeklyVolume.flatMap((week) => week.muscleGroups.map((g) => g.muscleGroup)))]
+
+  const exercise = strength.find((e) => e.exercise === selectedExercise) ?? strength[0]
+  const recentRecords = strength
+    .flatMap((e) => e.personalRecords.map((record) => ({ ...record, exercise: e.exercise })))
+    .sort((a, b) => b.date - a.date)
+    .slice(0, 8)
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <h4 className="font-mono text-sm text-muted-foreground">WEEKLY VOLUME (KG × REPS)</h4>
+        <div className="flex flex-wrap gap-3 text-xs font-mono text-muted-foreground">
+          {muscleGroups.map((group) => (
+            <span key={group} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${MUSCLE_COLORS[group]}`} />
+              {group.toUpperCase()}
+            </span>
+          ))}
+        </div>
+        <div className="space-y-2">
+          {weeklyVolume.map((week, index) => (
+            <div key={week.weekStart} className="flex items-center gap-3 text-xs font-mono">
+              <span className="w-16 text-muted-foreground">{formatDate(week.weekStart)}</span>
+              <div className="flex-1 flex h-3 rounded bg-muted/40 overflow-hidden">
+                {week.muscleGroups.map((group) => (
+                  <div
+                    key={group.muscleGroup}
+                    className={MUSCLE_COLORS[group.muscleGroup]}
+                    style={{ width: `${(group.volume / maxWeeklyVolume) * 100}%` }}
+                    title={`${group.muscleGroup}: ${group.volume.toLocaleString()} kg · ${group.sets} sets`}
+                  />
+                ))}
+              </div>
+              <span className="w-32 text-right text-foreground">
+                {weeklyTotals[index].toLocaleString()} kg · {week.muscleGroups.reduce((sum, g) => sum + g.sets, 0)} sets
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {exercise && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="font-mono text-sm text-muted-foreground">ESTIMATED 1RM</h4>
+            <select
+              value={exercise.exercise}
+              onChange={(e) => setSelectedExercise(e.target.value)}
+              className="bg-background border border-border rounded px-2 py-1 font-mono text-sm"
+            >
+              {strength.map((e) => (
+                <option key={e.exercise} value={e.exercise}>{e.exercise}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <div className="px-2 py-1 rounded bg-primary/20 text-primary text-xs font-mono">
+              EPLEY {exercise.bestEpley} KG
+            </div>
+            <div className="px-2 py-1 rounded bg-secondary/20 text-secondary text-xs font-mono">
+              BRZYCKI {exercise.bestBrzycki} KG
+            </div>
+            <div className="px-2 py-1 rounded bg-muted text-muted-foreground text-xs font-mono">
+              HEAVIEST {exercise.heaviest} KG
+            </div>
+          </div>
+          {exercise.points.length > 0 ? (
+            <LineChart
+              points={exercise.points.map((p) => ({ x: p.date, y: p.epley }))}
+              formatX={formatDate}
+              formatY={(y) => `${Math.round(y)} kg`}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Estimates use weighted sets of 12 reps or fewer.
+            </p>
+          )}
+        </div>
+      )}
+
+      {recentRecords.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-mono text-sm text-muted-foreground">PERSONAL RECORDS</h4>
+          <ul className="space-y-2">
+            {recentRecords.map((record, index) => (
+              <li key={index} className="flex items-center gap-2 text-sm">
+                <TrophyIcon className="size-4 text-amber-400" />
+                <span className="text-foreground">{record.exercise}</span>
+                <span className="text-muted-foreground font-mono">
+                  {record.type === "e1rm"
+                    ? `${record.value} kg est. 1RM (${record.reps} reps)`
+                    : `${record.value} kg heaviest set`}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground font-mono">{formatDate(record.date)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+export default ProgressAnalytics
@@ -0,0 +1,42 @@
+import { describeLoad } from "../../convex/periodization"
+import { formatSeconds, Routine } from "../../convex/routines"
+
+const badgeClass = {
+  primary: "bg-primary/20 text-primary",
+  secondary: "bg-secondary/20 text-secondary",
+  muted: "bg-muted text-muted-foreground",
+}
+
+// the count, the per-set effort and the optional tempo, rest and program
+// load, as badges; timed and distance work has no load
+const RoutineTargets = ({ routine, loadPercent, targetWeight }: {
+  routine: Routine
+  loadPercent?: number
+  // set by auto-regulation, already including the week's load
+  targetWeight?: string
+}) => {
+  const badges: [keyof typeof badgeClass, string][] =
+    routine.type === "circuit"
+      ? [["primary", `${routine.rounds} ${routine.rounds === 1 ? "ROUND" : "ROUNDS"}`]]
+      : [["primary", `${routine.sets} SETS`]]
+
+  if (routine.type === "reps") badges.push(["secondary", `${routine.reps} REPS`])
+  if (routine.type === "time") badges.push(["secondary", formatSeconds(routine.durationSeconds).toUpperCase()])
+  if (routine.type === "distance") badges.push(["secondary", `${routine.distance} ${routine.distanceUnit.toUpperCase()}`])
+  if (routine.type === "reps" && routine.tempo) badges.push(["muted", `TEMPO ${routine.tempo}`])
+  const load = loadPercent !== undefined && routine.type !== "time" && routine.type !== "distance" && describeLoad(loadPercent)
+  if (targetWeight) badges.push(["secondary", `@ ${targetWeight.toUpperCase()}`])
+  else if (load) badges.push(["secondary", load.toUpperCase()])
+  if (routine.restSeconds) badges.push(["muted", `${formatSeconds(routine.restSeconds).toUpperCase()} REST`])
+
+  return (
+    <div className="flex flex-wrap justify-end items-center gap-2">
+      {badges.map(([tone, label]) => (
+        <div key={label} className={`px-2 py-1 rounded text-xs font-mono ${badgeClass[tone]}`}>
+          {label}
+        </div>
+      ))}
+    </div>
+  )
+}
+export default RoutineTargets
@@ -0,0 +1,239 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { ChevronLeftIcon, ChevronRightIcon, DumbbellIcon, XIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import { localDate } from "../../convex/calendar"
+import { currentProgramWeek, describeLoad, routineForWeek, weeksSinceStart } from "../../convex/periodization"
+import { applyAdjustment, latestAdjustment } from "../../convex/progression"
+import { describeCircuitExercise, describeRoutineTarget, normalizeRoutine } from "../../convex/routines"
+import CornerElements from "./CornerElements"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+// plan days are normally bare weekday names, but tolerate "Monday - Upper Body"
+const findWorkoutForWeekday = (plan: Doc<"plans">, weekday: string) =>
+  plan.workoutPlan.exercises.find((exerciseDay) =>
+    exerciseDay.day.toLowerCase().startsWith(weekday.toLowerCase())
+  )
+
+const TodaysWorkout = ({ plan }: { plan: Doc<"plans"> }) => {
+  const active = useQuery(api.workoutSessions.getActiveSession)
+  const startSession = useMutation(api.workoutSessions.startSession)
+  const logSet = useMutation(api.workoutSessions.logSet)
+  const removeSet = useMutation(api.workoutSessions.removeSet)
+  const finishSession = useMutation(api.workoutSessions.finishSession)
+  const adjustments = useQuery(api.routineAdjustments.getPlanAdjustments, { planId: plan._id })
+  const today = localDate()
+  const scheduledDay = useQuery(api.scheduledWorkouts.getScheduledDay, { planId: plan._id, date: today })
+
+  const [routineIndex, setRoutineIndex] = useState(0)
+  const [weight, setWeight] = useState("")
+  const [weightUnit, setWeightUnit] = useState<"kg" | "lb">("kg")
+  const [reps, setReps] = useState("")
+  const [rpe, setRpe] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const weekday = new Date().toLocaleDateString("en-US", { weekday: "long" })
+  // once the plan is on the calendar, today is whatever was scheduled (or moved) here
+  const scheduled = scheduledDay?.workouts.find((workout) => workout.status !== "skipped")
+  const skippedToday = !scheduled && scheduledDay?.workouts.some((workout) => workout.status === "skipped")
+  const todaysWorkout = scheduledDay?.hasSchedule
+    ? scheduled && plan.workoutPlan.exercises.find((exerciseDay) => exerciseDay.day === scheduled.day)
+    : findWorkoutForWeekday(plan, weekday)
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Something went wrong. Please try again.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (active === undefined || scheduledDay === undefined) return null
+
+  const header = (title: string, detail: string) => (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-xl font-bold tracking-tight">
+        <span className="text-primary">{title}</span>{" "}
+        <span className="text-foreground">Workout</span>
+      </h2>
+      <div className="font-mono text-xs text-muted-foreground">{detail}</div>
+    </div>
+  )
+
+  if (!active) {
+    return (
+      <div className="relative backdrop-blur-sm border border-border p-6">
+        <CornerElements />
+        {header("Today's", weekday.toUpperCase())}
+        {scheduled?.status === "completed" ? (
+          <p className="text-muted-foreground">{scheduled.day} is done for today. Nice work!</p>
+        ) : todaysWorkout ? (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-muted-foreground">
+              {todaysWorkout.routines.length} exercises planned:{" "}
+              {todaysWorkout.routines.map((r) => r.name).join(", ")}
+            </p>
+            <Button disabled={busy}
+              onClick={() => run(() => startSession({
+                planId: plan._id,
+                day: todaysWorkout.day,
+                scheduledWorkoutId: scheduled?._id,
+              }))}>
+              <DumbbellIcon />
+              Start today&apos;s workout
+            </Button>
+          </div>
+        ) : skippedToday ? (
+          <p className="text-muted-foreground">Today&apos;s workout was skipped. Restore it from the calendar to train.</p>
+        ) : (
+          <p className="text-muted-foreground">No workout scheduled for {weekday}. Enjoy your rest day!</p>
+        )}
+        {error && <p className="mt-2 text-sm text-destructive font-mono">{error}</p>}
+      </div>
+    )
+  }
+
+  const { session, routines, sets } = active
+  const currentIndex = Math.min(routineIndex, Math.max(routines.length - 1, 0))
+  // targets follow the program's current week when the session belongs to this plan
+  const program = session.planId === plan._id ? plan.workoutPlan.program : undefined
+  const currentWeek = program && currentProgramWeek(program, Date.now())
+  const programWeek = program && currentWeek && program.weeks[currentWeek.index]
+  const week = currentWeek?.week ?? weeksSinceStart(plan._creationTime, Date.now())
+  const baseRoutine = routines[currentIndex] && normalizeRoutine(routines[currentIndex])
+  const adjustment = baseRoutine && session.planId === plan._id
+    ? latestAdjustment(adjustments ?? [], session.day, baseRoutine.name, week)
+    : undefined
+  const routine = baseRoutine && applyAdjustment(programWeek ? routineForWeek(baseRoutine, programWeek) : baseRoutine, adjustment)
+  const load = adjustment?.week === week && adjustment.targetWeight !== undefined
+    ? `${adjustment.targetWeight} ${adjustment.weightUnit}`
+    : programWeek && routine?.type !== "time" && routine?.type !== "distance" && describeLoad(programWeek.loadPercent)
+  // timed, distance and circuit work is logged as one rep per completed set or round
+  const targetReps = routine?.type === "reps" ? routine.reps : 1
+  const routineSets = routine ? sets.filter((s) => s.routineName === routine.name) : []
+
+  const handleLogSet = () => {
+    if (!routine) return
+    run(async () => {
+      await logSet({
+        sessionId: session._id,
+        routineName: routine.name,
+        reps: reps === "" ? targetReps : Number(reps),
+        weight: weight === "" ? undefined : Number(weight),
+        weightUnit,
+        rpe: rpe === "" ? undefined : Number(rpe),
+      })
+      setReps("")
+      setRpe("")
+    })
+  }
+
+  const goToRoutine = (index: number) => {
+    setRoutineIndex(index)
+    setWeight("")
+    setReps("")
+    setRpe("")
+  }
+
+  return (
+    <div className="relative backdrop-blur-sm border border-primary/50 p-6">
+      <CornerElements />
+      {header(session.day, `EXERCISE ${currentIndex + 1} OF ${routines.length}`)}
+
+      {routine ? (
+        <div className="space-y-4">
+          <div className="flex justify-between items-start">
+            <h3 className="text-lg font-semibold text-foreground">{routine.name}</h3>
+            <div className="px-2 py-1 rounded bg-primary/20 text-primary text-xs font-mono">
+              TARGET {describeRoutineTarget(routine).toUpperCase()}
+              {load && ` · ${load.toUpperCase()}`}
+            </div>
+          </div>
+          {routine.type === "circuit" && (
+            <ol className="space-y-1 list-decimal list-inside text-sm text-muted-foreground">
+              {routine.exercises.map((exercise, exerciseIndex) => (
+                <li key={exerciseIndex}>{describeCircuitExercise(exercise)}</li>
+              ))}
+            </ol>
+          )}
+
+          <ul className="space-y-1 font-mono text-sm">
+            {routineSets.map((set) => (
+              <li key={set._id} className="flex items-center gap-3 text-muted-foreground">
+                <span className="text-primary">SET {set.setNumber}</span>
+                <span>{set.reps} reps</span>
+                {set.weight !== undefined && <span>@ {set.weight} {set.weightUnit}</span>}
+                {set.rpe !== undefined && <span>RPE {set.rpe}</span>}
+                <Button variant="ghost" size="icon" aria-label="Remove set" className="ml-auto"
+                  disabled={busy} onClick={() => run(() => removeSet({ setLogId: set._id }))}>
+                  <XIcon />
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="w-24 space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">WEIGHT</span>
+              <Input type="number" min={0} step="any" value={weight} onChange={(e) => setWeight(e.target.value)} />
+            </label>
+            <select value={weightUnit} onChange={(e) => setWeightUnit(e.target.value as "kg" | "lb")}
+              className="h-9 bg-background border border-border rounded px-2 font-mono text-sm">
+              <option value="kg">kg</option>
+              <option value="lb">lb</option>
+            </select>
+            <label className="w-20 space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">REPS</span>
+              <Input type="number" min={0} placeholder={String(targetReps)} value={reps}
+                onChange={(e) => setReps(e.target.value)} />
+            </label>
+            <label className="w-20 space-y-1">
+              <span className="text-xs font-mono text-muted-foreground">RPE</span>
+              <Input type="number" min={1} max={10} step={0.5} value={rpe} onChange={(e) => setRpe(e.target.value)} />
+            </label>
+            <Button disabled={busy} onClick={handleLogSet}>
+              Log set {Math.max(0, ...routineSets.map((set) => set.setNumber)) + 1}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-muted-foreground">This day no longer has any exercises in the plan.</p>
+      )}
+
+      {error && <p className="mt-2 text-sm text-destructive font-mono">{error}</p>}
+
+      <div className="flex justify-between items-center mt-6">
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={currentIndex === 0}
+            onClick={() => goToRoutine(currentIndex - 1)}>
+            <ChevronLeftIcon />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" disabled={currentIndex >= routines.length - 1}
+            onClick={() => goToRoutine(currentIndex + 1)}>
+            Next
+            <ChevronRightIcon />
+          </Button>
+        </div>
+        <Button variant="destructive" disabled={busy}
+          onClick={() => run(async () => {
+            await finishSession({ sessionId: session._id })
+            goToRoutine(0)
+          })}>
+          Finish workout
+        </Button>
+      </div>
+    </div>
+  )
+}
+export default TodaysWorkout
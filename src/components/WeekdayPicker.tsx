@@ -0,0 +1,26 @@
+"use client"
+
+import { Button } from "./ui/button"
+
+export const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
+
+// toggles days on and off while keeping the selection in calendar order
+const WeekdayPicker = ({ value, onChange }: { value: string[]; onChange: (days: string[]) => void }) => (
+  <div className="flex flex-wrap gap-2">
+    {WEEKDAYS.map((day) => (
+      <Button key={day} size="sm" type="button"
+        onClick={() =>
+          onChange(value.includes(day)
+            ? value.filter((d) => d !== day)
+            : WEEKDAYS.filter((d) => d === day || value.includes(d)))
+        }
+        className={`text-foreground border hover:text-white ${value.includes(day)
+          ? "bg-primary/20 text-primary border-primary"
+          : "bg-transparent border-border hover:border-primary/50"
+          }`}>
+        {day.slice(0, 3).toUpperCase()}
+      </Button>
+    ))}
+  </div>
+)
+export default WeekdayPicker
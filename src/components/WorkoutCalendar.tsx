@@ -0,0 +1,186 @@
+"use client"
+
+import { useMutation, useQuery } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { CalendarDaysIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc, Id } from "../../convex/_generated/dataModel"
+import { addDays, localDate, ScheduleStatus, startOfWeek, WEEKDAYS } from "../../convex/calendar"
+import CalendarSubscribe from "./CalendarSubscribe"
+import CornerElements from "./CornerElements"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+const WEEKS_SHOWN = 5
+
+const STATUS_STYLES: Record<ScheduleStatus, string> = {
+  scheduled: "bg-primary/20 text-primary border-primary/50",
+  completed: "bg-green-500/20 text-green-500 border-green-500/50",
+  skipped: "bg-transparent text-muted-foreground border-border line-through",
+  missed: "bg-amber-400/10 text-amber-400 border-amber-400/50",
+}
+
+// the active plan's days on real dates: generate a schedule, then move, swap
+// or skip workouts; workouts left undone on past days show as missed
+const WorkoutCalendar = ({ plan }: { plan: Doc<"plans"> }) => {
+  const today = localDate()
+  const [from, setFrom] = useState(() => addDays(startOfWeek(today), -7))
+  const to = addDays(from, WEEKS_SHOWN * 7 - 1)
+  const workouts = useQuery(api.scheduledWorkouts.getSchedule, { planId: plan._id, from, to, today })
+  const generateSchedule = useMutation(api.scheduledWorkouts.generateSchedule)
+  const moveWorkout = useMutation(api.scheduledWorkouts.moveWorkout)
+  const swapWorkouts = useMutation(api.scheduledWorkouts.swapWorkouts)
+  const setSkipped = useMutation(api.scheduledWorkouts.setSkipped)
+
+  const [startDate, setStartDate] = useState(today)
+  const [selectedId, setSelectedId] = useState<Id<"scheduledWorkouts"> | null>(null)
+  const [moving, setMoving] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (workouts === undefined) return null
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Something went wrong. Please try again.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const clearSelection = () => {
+    setSelectedId(null)
+    setMoving(false)
+  }
+
+  const selected = workouts.find((workout) => workout._id === selectedId)
+  const missed = workouts.filter((workout) => workout.status === "missed").length
+  const dates = Array.from({ length: WEEKS_SHOWN * 7 }, (_, offset) => addDays(from, offset))
+
+  const handleWorkoutClick = (workout: (typeof workouts)[number]) => {
+    if (moving && selected && workout._id !== selected._id) {
+      run(async () => {
+        await swapWorkouts({ workoutId: selected._id, otherWorkoutId: workout._id })
+        clearSelection()
+      })
+      return
+    }
+    setMoving(false)
+    setSelectedId(workout.status === "completed" || workout._id === selectedId ? null : workout._id)
+  }
+
+  const handleDateClick = (date: string) => {
+    if (!moving || !selected) return
+    run(async () => {
+      await moveWorkout({ workoutId: selected._id, date, today })
+      clearSelection()
+    })
+  }
+
+  return (
+    <div className="relative backdrop-blur-sm border border-border p-6">
+      <CornerElements />
+
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold tracking-tight">
+          <span className="text-primary">Workout</span>{" "}
+          <span className="text-foreground">Calendar</span>
+        </h2>
+        <div className="flex items-center gap-1 font-mono text-xs text-muted-foreground">
+          <Button variant="ghost" size="icon" aria-label="Earlier weeks" onClick={() => setFrom(addDays(from, -28))}>
+            <ChevronLeftIcon />
+          </Button>
+          <span>{from} – {to}</span>
+          <Button variant="ghost" size="icon" aria-label="Later weeks" onClick={() => setFrom(addDays(from, 28))}>
+            <ChevronRightIcon />
+          </Button>
+        </div>
+      </div>
+
+      {missed > 0 && (
+        <p className="mb-4 font-mono text-sm text-amber-400">
+          {missed} MISSED WORKOUT{missed === 1 ? "" : "S"} — move them to another day or skip them.
+        </p>
+      )}
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="font-mono text-xs text-muted-foreground text-center">
+            {weekday.slice(0, 3).toUpperCase()}
+          </div>
+        ))}
+        {dates.map((date) => {
+          const dayWorkouts = workouts.filter((workout) => workout.date === date)
+          const droppable = moving && selected && dayWorkouts.length === 0 && date >= today
+          return (
+            <div key={date} onClick={() => droppable && handleDateClick(date)}
+              className={`min-h-20 border rounded p-1 space-y-1 ${date === today ? "border-primary" : "border-border"} ${droppable ? "cursor-pointer hover:border-primary/50 border-dashed" : ""}`}>
+              <div className={`font-mono text-xs ${date === today ? "text-primary" : "text-muted-foreground"}`}>
+                {Number(date.slice(8))}
+              </div>
+              {dayWorkouts.map((workout) => (
+                <button key={workout._id} type="button" title={workout.day} disabled={busy}
+                  onClick={() => handleWorkoutClick(workout)}
+                  className={`block w-full truncate border rounded px-1 text-left font-mono text-xs ${STATUS_STYLES[workout.status]} ${workout._id === selectedId ? "ring-1 ring-primary" : ""}`}>
+                  {workout.originalDate && <span title={`Moved from ${workout.originalDate}`}>↷ </span>}
+                  {workout.day}
+                </button>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      {selected && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="font-mono text-sm text-foreground">
+            {selected.day} · {selected.date}
+            {selected.originalDate && <span className="text-muted-foreground"> (moved from {selected.originalDate})</span>}
+          </span>
+          {moving ? (
+            <span className="font-mono text-xs text-muted-foreground">
+              Pick an empty day to move it, or another workout to swap with.
+            </span>
+          ) : (
+            <>
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => setMoving(true)}>
+                Move
+              </Button>
+              <Button size="sm" variant="outline" disabled={busy}
+                onClick={() => run(async () => {
+                  await setSkipped({ workoutId: selected._id, skipped: selected.status !== "skipped" })
+                  clearSelection()
+                })}>
+                {selected.status === "skipped" ? "Restore" : "Skip"}
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant="ghost" onClick={clearSelection}>Cancel</Button>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="font-mono text-xs text-muted-foreground">SCHEDULE {plan.name.toUpperCase()} FROM</span>
+        <Input type="date" className="w-40" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        <Button size="sm" disabled={busy || !startDate}
+          onClick={() => run(async () => {
+            await generateSchedule({ planId: plan._id, startDate })
+            clearSelection()
+          })}>
+          <CalendarDaysIcon />
+          {workouts.length > 0 ? "Reschedule" : "Generate"}
+        </Button>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-destructive font-mono">{error}</p>}
+
+      <CalendarSubscribe />
+    </div>
+  )
+}
+export default WorkoutCalendar
@@ -0,0 +1,342 @@
+"use client"
+
+import { useMutation } from "convex/react"
+import { ConvexError } from "convex/values"
+import { useState } from "react"
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, Trash2Icon } from "lucide-react"
+import { api } from "../../convex/_generated/api"
+import { Doc } from "../../convex/_generated/dataModel"
+import {
+  CircuitExercise,
+  DISTANCE_UNITS,
+  DistanceUnit,
+  normalizeRoutine,
+  Routine,
+  ROUTINE_TYPES,
+  RoutineType,
+} from "../../convex/routines"
+import { Program } from "../../convex/periodization"
+import { moveItem } from "@/lib/utils"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+// `originalName` is the saved name, so renames can be told apart from new routines
+type DraftRoutine = Routine & { originalName?: string }
+
+type WorkoutPlan<R> = {
+  schedule: string[]
+  exercises: { day: string; routines: R[] }[]
+  program?: Program
+}
+type DraftWorkoutPlan = WorkoutPlan<DraftRoutine>
+
+// the per-set effort shared by single routines and circuit movements
+type Effort = Exclude<Routine, { type: "circuit" }> | CircuitExercise
+type EffortPatch = Partial<{ reps: number; tempo: string; durationSeconds: number; distance: number; distanceUnit: DistanceUnit }>
+
+const TYPE_LABELS: Record<RoutineType, string> = { reps: "Reps", time: "Time", distance: "Distance", circuit: "Circuit" }
+
+// legacy routines open in their typed form and are saved that way
+const toDraft = (plan: Doc<"plans">["workoutPlan"]): DraftWorkoutPlan => ({
+  schedule: [...plan.schedule],
+  exercises: plan.exercises.map((exerciseDay) => ({
+    day: exerciseDay.day,
+    routines: exerciseDay.routines.map((stored) => {
+      const routine = normalizeRoutine(stored)
+      return { ...routine, originalName: routine.name }
+    }),
+  })),
+  program: plan.program,
+})
+
+// drop empty optional text so cleared fields are removed rather than saved as ""
+const fromDraft = (draft: DraftWorkoutPlan): WorkoutPlan<Routine> => ({
+  schedule: draft.schedule,
+  exercises: draft.exercises.map((exerciseDay) => ({
+    day: exerciseDay.day,
+    routines: exerciseDay.routines.map((draftRoutine) => {
+      const routine: DraftRoutine = { ...draftRoutine }
+      delete routine.originalName
+      const trimmed = { ...routine, name: routine.name.trim(), description: routine.description?.trim() || undefined }
+      if (trimmed.type === "reps") return { ...trimmed, tempo: trimmed.tempo?.trim() || undefined }
+      if (trimmed.type === "circuit") {
+        return {
+          ...trimmed,
+          exercises: trimmed.exercises.map((exercise) => ({
+            ...exercise,
+            name: exercise.name.trim(),
+            ...(exercise.type === "reps" && { tempo: exercise.tempo?.trim() || undefined }),
+          })),
+        }
+      }
+      return trimmed
+    }),
+  })),
+  program: draft.program,
+})
+
+// saved routines whose name changed, so their logged sets follow them
+const renamesOf = (draft: DraftWorkoutPlan) =>
+  draft.exercises.flatMap(({ day, routines }) =>
+    routines.flatMap(({ name, originalName }) =>
+      originalName !== undefined && originalName !== name.trim() ? [{ day, from: originalName, to: name.trim() }] : []
+    )
+  )
+
+const convertEffort = (name: string, type: Effort["type"]): CircuitExercise => {
+  if (type === "time") return { type, name, durationSeconds: 30 }
+  if (type === "distance") return { type, name, distance: 1, distanceUnit: "km" }
+  return { type, name, reps: 10 }
+}
+
+// switching type keeps the name, set count, rest and notes and starts the new
+// fields from typical values
+const convertRoutine = (routine: Routine, type: RoutineType): Routine => {
+  const { name, restSeconds, description } = routine
+  const sets = routine.type === "circuit" ? routine.rounds : routine.sets
+  if (type === "circuit") {
+    return { type, name, rounds: sets, exercises: [convertEffort(name, "reps")], restSeconds, description }
+  }
+  return { ...convertEffort(name, type), sets, restSeconds, description } as Routine
+}
+
+const NumberField = ({ label, value, onChange, optional = false, className = "w-20" }: {
+  label: string
+  value: number | undefined
+  onChange: (value: number | undefined) => void
+  optional?: boolean
+  className?: string
+}) => (
+  <label className={`${className} space-y-1`}>
+    <span className="text-xs font-mono text-muted-foreground">{label}</span>
+    <Input type="number" min={optional ? 0 : 1} step="any" value={value ?? ""} placeholder={optional ? "-" : undefined}
+      onChange={(e) => onChange(e.target.value === "" && optional ? undefined : Number(e.target.value))} />
+  </label>
+)
+
+const EffortFields = ({ effort, onChange }: { effort: Effort; onChange: (patch: EffortPatch) => void }) => {
+  if (effort.type === "reps") {
+    return (
+      <>
+        <NumberField label="REPS" value={effort.reps} onChange={(reps) => onChange({ reps })} />
+        <label className="w-24 space-y-1">
+          <span className="text-xs font-mono text-muted-foreground">TEMPO</span>
+          <Input placeholder="3-1-1-0" value={effort.tempo ?? ""} onChange={(e) => onChange({ tempo: e.target.value })} />
+        </label>
+      </>
+    )
+  }
+  if (effort.type === "time") {
+    return <NumberField label="SECONDS" className="w-24" value={effort.durationSeconds}
+      onChange={(durationSeconds) => onChange({ durationSeconds })} />
+  }
+  return (
+    <>
+      <NumberField label="DISTANCE" className="w-24" value={effort.distance} onChange={(distance) => onChange({ distance })} />
+      <select value={effort.distanceUnit} onChange={(e) => onChange({ distanceUnit: e.target.value as DistanceUnit })}
+        className="h-9 bg-background border border-border rounded px-2 font-mono text-sm">
+        {DISTANCE_UNITS.map((unit) => (
+          <option key={unit} value={unit}>{unit}</option>
+        ))}
+      </select>
+    </>
+  )
+}
+
+const TypeSelect = ({ value, types, onChange }: {
+  value: RoutineType
+  types: readonly RoutineType[]
+  onChange: (type: RoutineType) => void
+}) => (
+  <label className="space-y-1">
+    <span className="block text-xs font-mono text-muted-foreground">TYPE</span>
+    <select value={value} onChange={(e) => onChange(e.target.value as RoutineType)}
+      className="h-9 bg-background border border-border rounded px-2 font-mono text-sm">
+      {types.map((type) => (
+        <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+      ))}
+    </select>
+  </label>
+)
+
+const WorkoutPlanEditor = ({ plan, onDone }: { plan: Doc<"plans">; onDone: () => void }) => {
+  const [draft, setDraft] = useState(() => toDraft(plan.workoutPlan))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateWorkoutPlan = useMutation(api.plans.updateWorkoutPlan)
+
+  const moveDay = (dayIndex: number, offset: number) => {
+    setDraft((prev) => {
+      const exercises = moveItem(prev.exercises, dayIndex, offset)
+      // keep the schedule in the same order as the reordered days
+      const orderedDays = exercises.map((e) => e.day).filter((day) => prev.schedule.includes(day))
+      const otherDays = prev.schedule.filter((day) => !orderedDays.includes(day))
+      return { ...prev, schedule: [...orderedDays, ...otherDays], exercises }
+    })
+  }
+
+  const updateRoutines = (dayIndex: number, update: (routines: DraftRoutine[]) => DraftRoutine[]) => {
+    setDraft((prev) => ({
+      ...prev,
+      exercises: prev.exercises.map((exerciseDay, i) =>
+        i === dayIndex ? { ...exerciseDay, routines: update(exerciseDay.routines) } : exerciseDay
+      ),
+    }))
+  }
+
+  const replaceRoutine = (dayIndex: number, routineIndex: number, update: (routine: DraftRoutine) => DraftRoutine) => {
+    updateRoutines(dayIndex, (routines) =>
+      routines.map((routine, j) => (j === routineIndex ? update(routine) : routine))
+    )
+  }
+
+  // patches are only ever fields of the routine's current type
+  const updateRoutine = (dayIndex: number, routineIndex: number, patch: Partial<Routine> | EffortPatch) =>
+    replaceRoutine(dayIndex, routineIndex, (routine) => ({ ...routine, ...patch }) as DraftRoutine)
+
+  const updateCircuitExercises = (
+    dayIndex: number,
+    routineIndex: number,
+    update: (exercises: CircuitExercise[]) => CircuitExercise[]
+  ) =>
+    replaceRoutine(dayIndex, routineIndex, (routine) =>
+      routine.type === "circuit" ? { ...routine, exercises: update(routine.exercises) } : routine
+    )
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await updateWorkoutPlan({ planId: plan._id, workoutPlan: fromDraft(draft), renames: renamesOf(draft) })
+      onDone()
+    } catch (err) {
+      setError(err instanceof ConvexError ? String(err.data) : "Failed to save changes.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {draft.exercises.map((exerciseDay, dayIndex) => (
+        <div key={dayIndex} className="border rounded-lg p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-primary font-mono">{exerciseDay.day}</span>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" aria-label="Move day up"
+                disabled={dayIndex === 0} onClick={() => moveDay(dayIndex, -1)}>
+                <ArrowUpIcon />
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Move day down"
+                disabled={dayIndex === draft.exercises.length - 1} onClick={() => moveDay(dayIndex, 1)}>
+                <ArrowDownIcon />
+              </Button>
+            </div>
+          </div>
+
+          {exerciseDay.routines.map((routine, routineIndex) => (
+            <div key={routineIndex} className="border border-border rounded p-3 bg-background/50 space-y-2">
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="flex-1 min-w-40 space-y-1">
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {routine.type === "circuit" ? "CIRCUIT NAME" : "EXERCISE"}
+                  </span>
+                  <Input value={routine.name}
+                    onChange={(e) => updateRoutine(dayIndex, routineIndex, { name: e.target.value })} />
+                </label>
+                <TypeSelect value={routine.type} types={ROUTINE_TYPES}
+                  onChange={(type) => replaceRoutine(dayIndex, routineIndex, (r) => ({ ...convertRoutine(r, type), originalName: r.originalName }))} />
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" aria-label="Move exercise up" disabled={routineIndex === 0}
+                    onClick={() => updateRoutines(dayIndex, (routines) => moveItem(routines, routineIndex, -1))}>
+                    <ArrowUpIcon />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label="Move exercise down"
+                    disabled={routineIndex === exerciseDay.routines.length - 1}
+                    onClick={() => updateRoutines(dayIndex, (routines) => moveItem(routines, routineIndex, 1))}>
+                    <ArrowDownIcon />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label="Remove exercise"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => updateRoutines(dayIndex, (routines) => routines.filter((_, j) => j !== routineIndex))}>
+                    <Trash2Icon />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-end gap-2">
+                {routine.type === "circuit" ? (
+                  <>
+                    <NumberField label="ROUNDS" value={routine.rounds}
+                      onChange={(rounds) => updateRoutine(dayIndex, routineIndex, { rounds })} />
+                    <NumberField label="REST BETWEEN (S)" className="w-32" optional value={routine.exerciseRestSeconds}
+                      onChange={(exerciseRestSeconds) => updateRoutine(dayIndex, routineIndex, { exerciseRestSeconds })} />
+                  </>
+                ) : (
+                  <>
+                    <NumberField label="SETS" value={routine.sets}
+                      onChange={(sets) => updateRoutine(dayIndex, routineIndex, { sets })} />
+                    <EffortFields effort={routine} onChange={(patch) => updateRoutine(dayIndex, routineIndex, patch)} />
+                  </>
+                )}
+                <NumberField label="REST (S)" optional value={routine.restSeconds}
+                  onChange={(restSeconds) => updateRoutine(dayIndex, routineIndex, { restSeconds })} />
+              </div>
+
+              {routine.type === "circuit" && (
+                <div className="space-y-2 border-l border-border pl-3">
+                  {routine.exercises.map((exercise, exerciseIndex) => (
+                    <div key={exerciseIndex} className="flex flex-wrap items-end gap-2">
+                      <label className="flex-1 min-w-40 space-y-1">
+                        <span className="text-xs font-mono text-muted-foreground">EXERCISE {exerciseIndex + 1}</span>
+                        <Input value={exercise.name}
+                          onChange={(e) => updateCircuitExercises(dayIndex, routineIndex, (exercises) =>
+                            exercises.map((ex, k) => (k === exerciseIndex ? { ...ex, name: e.target.value } : ex)))} />
+                      </label>
+                      <TypeSelect value={exercise.type} types={ROUTINE_TYPES.filter((type) => type !== "circuit")}
+                        onChange={(type) => updateCircuitExercises(dayIndex, routineIndex, (exercises) =>
+                          exercises.map((ex, k) =>
+                            k === exerciseIndex ? convertEffort(ex.name, type as CircuitExercise["type"]) : ex))} />
+                      <EffortFields effort={exercise}
+                        onChange={(patch) => updateCircuitExercises(dayIndex, routineIndex, (exercises) =>
+                          exercises.map((ex, k) => (k === exerciseIndex ? ({ ...ex, ...patch }) as CircuitExercise : ex)))} />
+                      <Button variant="ghost" size="icon" aria-label="Remove circuit exercise"
+                        className="text-destructive hover:text-destructive" disabled={routine.exercises.length === 1}
+                        onClick={() => updateCircuitExercises(dayIndex, routineIndex, (exercises) =>
+                          exercises.filter((_, k) => k !== exerciseIndex))}>
+                        <Trash2Icon />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="ghost" size="sm"
+                    onClick={() => updateCircuitExercises(dayIndex, routineIndex, (exercises) =>
+                      [...exercises, convertEffort("", "reps")])}>
+                    <PlusIcon />
+                    Add to circuit
+                  </Button>
+                </div>
+              )}
+
+              <Input placeholder="Description (optional)" value={routine.description ?? ""}
+                onChange={(e) => updateRoutine(dayIndex, routineIndex, { description: e.target.value })} />
+            </div>
+          ))}
+
+          <Button variant="outline" size="sm"
+            onClick={() => updateRoutines(dayIndex, (routines) => [...routines, { type: "reps", name: "", sets: 3, reps: 10 }])}>
+            <PlusIcon />
+            Add exercise
+          </Button>
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-destructive font-mono">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone} disabled={saving}>Cancel</Button>
+        <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Workout"}</Button>
+      </div>
+    </div>
+  )
+}
+export default WorkoutPlanEditor
@@ -0,0 +1,138 @@
+import { Doc } from "../../convex/_generated/dataModel"
+import { describeFood } from "../../convex/nutrition"
+import { describeCircuitExercise, describeRoutineTarget, normalizeRoutine, StoredRoutine } from "../../convex/routines"
+
+type WorkoutPlan = Doc<"plans">["workoutPlan"]
+type DietPlan = Doc<"plans">["dietPlan"]
+
+export type PlanChange = {
+  kind: "added" | "removed" | "changed"
+  label: string
+  before?: string
+  after?: string
+}
+
+// legacy routines are compared in their typed form, so a plan saved before
+// routines were typed doesn't show every routine as changed after an edit
+const formatRoutine = (stored: StoredRoutine) => {
+  const routine = normalizeRoutine(stored)
+  return [
+    describeRoutineTarget(routine),
+    routine.type === "circuit" && routine.exercises.map(describeCircuitExercise).join(", "),
+    routine.description,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+// describes how plan `after` differs from plan `before`, matching days, routines
+// and meals by name so a reorder doesn't read as a remove plus an add
+export function diffWorkoutPlans(before: WorkoutPlan, after: WorkoutPlan): PlanChange[] {
+  const changes: PlanChange[] = []
+
+  if (before.schedule.join(",") !== after.schedule.join(",")) {
+    changes.push({
+      kind: "changed",
+      label: "Schedule",
+      before: before.schedule.join(", "),
+      after: after.schedule.join(", "),
+    })
+  }
+
+  const beforeDays = before.exercises.map((e) => e.day)
+  const afterDays = after.exercises.map((e) => e.day)
+  const sharedDays = afterDays.filter((day) => beforeDays.includes(day))
+  if (beforeDays.filter((day) => afterDays.includes(day)).join(",") !== sharedDays.join(",")) {
+    changes.push({ kind: "changed", label: "Day order", before: beforeDays.join(", "), after: afterDays.join(", ") })
+  }
+
+  for (const day of before.exercises) {
+    if (!afterDays.includes(day.day)) {
+      changes.push({ kind: "removed", label: day.day, before: `${day.routines.length} exercises` })
+    }
+  }
+
+  for (const day of after.exercises) {
+    const previous = before.exercises.find((e) => e.day === day.day)
+    if (!previous) {
+      changes.push({ kind: "added", label: day.day, after: `${day.routines.length} exercises` })
+      continue
+    }
+
+    for (const routine of previous.routines) {
+      if (!day.routines.some((r) => r.name === routine.name)) {
+        changes.push({ kind: "removed", label: `${day.day} · ${routine.name}`, before: formatRoutine(routine) })
+      }
+    }
+    for (const routine of day.routines) {
+      const old = previous.routines.find((r) => r.name === routine.name)
+      if (!old) {
+        changes.push({ kind: "added", label: `${day.day} · ${routine.name}`, after: formatRoutine(routine) })
+      } else if (formatRoutine(old) !== formatRoutine(routine)) {
+        changes.push({
+          kind: "changed",
+          label: `${day.day} · ${routine.name}`,
+          before: formatRoutine(old),
+          after: formatRoutine(routine),
+        })
+      }
+    }
+  }
+
+  return changes
+}
+
+const describeMacros = (macros: DietPlan["macros"]) =>
+  macros ? `${macros.protein}P / ${macros.carbs}C / ${macros.fat}F g` : "none"
+
+export function diffDietPlans(before: DietPlan, after: DietPlan): PlanChange[] {
+  const changes: PlanChange[] = []
+
+  if (before.dailyCalories !== after.dailyCalories) {
+    changes.push({
+      kind: "changed",
+      label: "Daily calories",
+      before: `${before.dailyCalories} kcal`,
+      after: `${after.dailyCalories} kcal`,
+    })
+  }
+
+  if (describeMacros(before.macros) !== describeMacros(after.macros)) {
+    changes.push({
+      kind: "changed",
+      label: "Daily macros",
+      before: describeMacros(before.macros),
+      after: describeMacros(after.macros),
+    })
+  }
+
+  for (const meal of before.meals) {
+    if (!after.meals.some((m) => m.name === meal.name)) {
+      changes.push({ kind: "removed", label: meal.name, before: meal.foods.map(describeFood).join(", ") })
+    }
+  }
+
+  for (const meal of after.meals) {
+    const previous = before.meals.find((m) => m.name === meal.name)
+    if (!previous) {
+      changes.push({ kind: "added", label: meal.name, after: meal.foods.map(describeFood).join(", ") })
+      continue
+    }
+    // foods compare by their full description, so a changed portion shows up
+    // as the old entry removed and the new one added
+    const previousFoods = previous.foods.map(describeFood)
+    const currentFoods = meal.foods.map(describeFood)
+    for (const food of previousFoods) {
+      if (!currentFoods.includes(food)) {
+        changes.push({ kind: "removed", label: `${meal.name} · ${food}` })
+      }
+    }
+    for (const food of currentFoods) {
+      if (!previousFoods.includes(food)) {
+        changes.push({ kind: "added", label: `${meal.name} · ${food}` })
+      }
+    }
+  }
+
+  return changes
+}
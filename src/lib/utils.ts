@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// returns a copy of items with items[index] moved by offset positions
+export function moveItem<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const next = [...items]
+  const [item] = next.splice(index, 1)
+  next.splice(target, 0, item)
+  return next
+}